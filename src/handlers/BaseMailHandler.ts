@@ -3,11 +3,14 @@
  */
 
 import type { Mail } from '../types/mail.js';
+import { explainMatch, matchAddressText, matchesMail, matchText } from './matchers.js';
 import type { 
+  HandlerMode,
   MailHandler, 
   MailHandlerConfig, 
   MailHandlerResult, 
-  MailMatcher 
+  MailMatcherLike,
+  TextMatchOptions
 } from './types.js';
 
 /**
@@ -16,11 +19,17 @@ import type {
 export abstract class BaseMailHandler implements MailHandler {
   readonly id: string;
   readonly priority: number;
-  protected matcher: MailMatcher | undefined;
+  readonly mode: HandlerMode;
+  readonly timeout?: number;
+  protected matcher: MailMatcherLike | undefined;
 
   constructor(config: MailHandlerConfig) {
     this.id = config.id;
     this.priority = config.priority || 0;
+    this.mode = config.mode ?? 'consumer';
+    if (config.timeout !== undefined) {
+      this.timeout = config.timeout;
+    }
     this.matcher = config.matcher;
   }
 
@@ -28,50 +37,23 @@ export abstract class BaseMailHandler implements MailHandler {
    * Check if handler can process mail using matcher
    */
   canHandle(mail: Mail): boolean {
-    if (!this.matcher) {
-      return this.customCanHandle(mail);
-    }
-
-    // Check subject
-    if (this.matcher.subject) {
-      if (!this.matchField(mail.subject, this.matcher.subject)) {
-        return false;
-      }
-    }
-
-    // Check from
-    if (this.matcher.from) {
-      if (!this.matchField(mail.from_address, this.matcher.from)) {
-        return false;
-      }
+    if (this.matcher && !matchesMail(this.matcher, mail)) {
+      return false;
     }
 
-    // Check to
-    if (this.matcher.to) {
-      if (!this.matchField(mail.to_address, this.matcher.to)) {
-        return false;
-      }
-    }
-
-    // Check body
-    if (this.matcher.body) {
-      if (!this.matchField(mail.body || '', this.matcher.body)) {
-        return false;
-      }
-    }
+    // Matcher passed, additionally check custom logic
+    return this.customCanHandle(mail);
+  }
 
-    // Check headers
-    if (this.matcher.headers && mail.headers) {
-      for (const [key, pattern] of Object.entries(this.matcher.headers)) {
-        const value = mail.headers[key];
-        if (!value || !this.matchField(value, pattern)) {
-          return false;
-        }
-      }
+  /**
+   * Name the matcher clause that rejects the mail, or null if it matches
+   */
+  explain(mail: Mail): string | null {
+    const failed = this.matcher ? explainMatch(this.matcher, mail) : null;
+    if (failed !== null) {
+      return failed;
     }
-
-    // All checks passed, additionally check custom logic
-    return this.customCanHandle(mail);
+    return this.customCanHandle(mail) ? null : 'customCanHandle';
   }
 
   /**
@@ -84,12 +66,16 @@ export abstract class BaseMailHandler implements MailHandler {
   /**
    * Match field against pattern
    */
-  protected matchField(field: string, pattern: string | RegExp): boolean {
-    if (typeof pattern === 'string') {
-      return field.includes(pattern);
-    } else {
-      return pattern.test(field);
-    }
+  protected matchField(field: string, pattern: string | RegExp, options?: TextMatchOptions): boolean {
+    return matchText(field, pattern, options);
+  }
+
+  /**
+   * Match an address field against a pattern; a RegExp is also tried on
+   * each bare address
+   */
+  protected matchAddress(field: string, pattern: string | RegExp, options?: TextMatchOptions): boolean {
+    return matchAddressText(field, pattern, options);
   }
 
   /**
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import type { Mail } from '../types/mail.js';
+import { HandlerTimeoutError } from './errors.js';
+import { MailHandlerRegistry } from './MailHandlerRegistry.js';
+import type { MailHandler, MailHandlerResult } from './types.js';
+
+function mail(from: string, subject: string): Mail {
+  return { from_address: from, to_address: 'user@example.com', subject, body: '' };
+}
+
+/**
+ * Promise settled from outside, to hold a handler mid-flight
+ */
+function deferred(): { promise: Promise<void>; resolve: () => void } {
+  let resolve = () => {};
+  const promise = new Promise<void>(done => {
+    resolve = done;
+  });
+  return { promise, resolve };
+}
+
+/**
+ * Consumer that records the subjects it starts and finishes
+ */
+function recorder(log: string[], wait: (mail: Mail) => Promise<void> = async () => {}, extra: Partial<MailHandler> = {}): MailHandler {
+  return {
+    id: 'recorder',
+    canHandle: () => true,
+    handle: async (mail): Promise<MailHandlerResult> => {
+      log.push(`start ${mail.subject}`);
+      await wait(mail);
+      log.push(`end ${mail.subject}`);
+      return { handled: true };
+    },
+    ...extra
+  };
+}
+
+describe('MailHandlerRegistry', () => {
+  it('processes mail from one sender in arrival order when ordering by sender', async () => {
+    const registry = new MailHandlerRegistry({ orderBySender: true });
+    const log: string[] = [];
+    const first = deferred();
+    registry.register(recorder(log, mail => mail.subject === '1' ? first.promise : Promise.resolve()));
+
+    const done = Promise.all([
+      registry.process(mail('Agent@example.com', '1')),
+      registry.process(mail('agent@example.com', '2'))
+    ]);
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(log).toEqual(['start 1']);
+
+    first.resolve();
+    await done;
+    expect(log).toEqual(['start 1', 'end 1', 'start 2', 'end 2']);
+  });
+
+  it('runs different senders concurrently', async () => {
+    const registry = new MailHandlerRegistry({ orderBySender: true });
+    const log: string[] = [];
+    const first = deferred();
+    registry.register(recorder(log, mail => mail.subject === 'a' ? first.promise : Promise.resolve()));
+
+    const a = registry.process(mail('a@example.com', 'a'));
+    await registry.process(mail('b@example.com', 'b'));
+    expect(log).toEqual(['start a', 'start b', 'end b']);
+
+    first.resolve();
+    await a;
+  });
+
+  it('runs mail from one sender at once unless ordering by sender', async () => {
+    const registry = new MailHandlerRegistry();
+    const log: string[] = [];
+    const slow = deferred();
+    registry.register(recorder(log, mail => mail.subject === 'slow' ? slow.promise : Promise.resolve()));
+
+    const pending = registry.process(mail('agent@example.com', 'slow'));
+    await registry.process(mail('agent@example.com', 'fast'));
+    expect(log).toEqual(['start slow', 'start fast', 'end fast']);
+
+    slow.resolve();
+    await pending;
+  });
+
+  it('times out a hung handler and releases later mail from its sender', async () => {
+    const registry = new MailHandlerRegistry({ orderBySender: true, handlerTimeout: 20 });
+    const log: string[] = [];
+    registry.register(recorder(log, mail => mail.subject === 'hung' ? new Promise(() => {}) : Promise.resolve()));
+
+    const [hung, next] = await Promise.all([
+      registry.trace(mail('agent@example.com', 'hung')),
+      registry.trace(mail('agent@example.com', 'next'))
+    ]);
+
+    expect(hung.entries[0].error).toBeInstanceOf(HandlerTimeoutError);
+    expect(hung.handledBy).toBeUndefined();
+    expect(next.handledBy).toBe('recorder');
+  });
+
+  it('prefers a handler timeout over the registry default', async () => {
+    const registry = new MailHandlerRegistry({ handlerTimeout: 10000 });
+    registry.register(recorder([], () => new Promise(() => {}), { timeout: 20 }));
+
+    const result = await registry.processOne(mail('agent@example.com', 'hung'));
+
+    expect(result?.error).toMatchObject({ name: 'HandlerTimeoutError', handlerId: 'recorder', timeout: 20 });
+  });
+
+  it('runs observers alongside consumers', async () => {
+    const registry = new MailHandlerRegistry();
+    const log: string[] = [];
+    const consumer = deferred();
+    registry.register(recorder(log, () => consumer.promise, { priority: 10 }));
+    registry.register({
+      id: 'audit',
+      mode: 'observer',
+      canHandle: () => true,
+      handle: async () => {
+        log.push('audit');
+        return { handled: true };
+      }
+    });
+
+    const running = registry.trace(mail('agent@example.com', 'm'));
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(log).toEqual(expect.arrayContaining(['start m', 'audit']));
+
+    consumer.resolve();
+    const trace = await running;
+    expect(trace.handledBy).toBe('recorder');
+    expect(trace.results).toHaveLength(2);
+  });
+});
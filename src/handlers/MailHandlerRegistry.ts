@@ -3,7 +3,18 @@
  */
 
 import type { Mail } from '../types/mail.js';
-import type { MailHandler, MailHandlerResult } from './types.js';
+import { getAddress } from '../utils/address.js';
+import type { Unsubscribe } from '../utils/EventEmitter.js';
+import { HandlerTimeoutError } from './errors.js';
+import type {
+  HandlerContext,
+  HandlerMiddleware,
+  HandlerTraceEntry,
+  MailHandler,
+  MailHandlerRegistryConfig,
+  MailHandlerResult,
+  MailTrace
+} from './types.js';
 
 /**
  * Registry for managing mail handlers
@@ -11,6 +22,15 @@ import type { MailHandler, MailHandlerResult } from './types.js';
 export class MailHandlerRegistry {
   private handlers: Map<string, MailHandler> = new Map();
   private sortedHandlers: MailHandler[] = [];
+  private middleware: HandlerMiddleware[] = [];
+  private handlerTimeout: number | undefined;
+  private orderBySender: boolean;
+  private senderQueues = new Map<string, Promise<unknown>>();
+
+  constructor(config: MailHandlerRegistryConfig = {}) {
+    this.orderBySender = config.orderBySender ?? false;
+    this.handlerTimeout = config.handlerTimeout;
+  }
 
   /**
    * Register a mail handler
@@ -57,52 +77,42 @@ export class MailHandlerRegistry {
     this.sortedHandlers = [];
   }
 
+  /**
+   * Add a middleware around every handler call
+   * Middleware runs in the order added
+   */
+  use(middleware: HandlerMiddleware): Unsubscribe {
+    this.middleware.push(middleware);
+    return () => {
+      this.middleware = this.middleware.filter(existing => existing !== middleware);
+    };
+  }
+
   /**
    * Process mail through all applicable handlers
    */
   async process(mail: Mail): Promise<MailHandlerResult[]> {
-    const results: MailHandlerResult[] = [];
-
-    for (const handler of this.sortedHandlers) {
-      try {
-        if (handler.canHandle(mail)) {
-          const result = await handler.handle(mail);
-          results.push(result);
-
-          // If handler fully processed the mail, stop processing
-          if (result.handled && !result.error) {
-            break;
-          }
-        }
-      } catch (error) {
-        results.push({
-          handled: false,
-          error: error instanceof Error ? error : new Error(String(error))
-        });
-      }
-    }
-
-    return results;
+    return (await this.run(mail)).results;
   }
 
   /**
    * Process mail and return first successful result
+   * Without one, returns the first error - thrown or reported - or null
    */
   async processOne(mail: Mail): Promise<MailHandlerResult | null> {
-    for (const handler of this.sortedHandlers) {
-      try {
-        if (handler.canHandle(mail)) {
-          const result = await handler.handle(mail);
-          if (result.handled && !result.error) {
-            return result;
-          }
-        }
-      } catch (error) {
-        // Continue to next handler
-      }
+    const { entries, results, handledBy } = await this.run(mail);
+    if (handledBy) {
+      return entries.find(entry => entry.handlerId === handledBy)?.result ?? null;
     }
+    return results.find(result => result.error) ?? null;
+  }
 
-    return null;
+  /**
+   * Process mail like process() and report what each handler did
+   * Entries are in priority order; observers ran alongside the consumers
+   */
+  trace(mail: Mail): Promise<MailTrace> {
+    return this.run(mail);
   }
 
   /**
@@ -112,6 +122,130 @@ export class MailHandlerRegistry {
     return this.sortedHandlers.filter(handler => handler.canHandle(mail));
   }
 
+  /**
+   * Run mail through the handlers, after earlier mail from the same sender
+   * when ordering by sender
+   */
+  private run(mail: Mail): Promise<MailTrace> {
+    if (!this.orderBySender) {
+      return this.runNow(mail);
+    }
+
+    const sender = getAddress(mail.from_address).toLowerCase();
+    const previous = this.senderQueues.get(sender) ?? Promise.resolve();
+    const current = previous.then(() => this.runNow(mail));
+    const tail = current.catch(() => undefined);
+    this.senderQueues.set(sender, tail);
+    tail.then(() => {
+      if (this.senderQueues.get(sender) === tail) {
+        this.senderQueues.delete(sender);
+      }
+    });
+    return current;
+  }
+
+  /**
+   * Start every matching observer, then offer mail to consumers in
+   * priority order until one processes it
+   */
+  private async runNow(mail: Mail): Promise<MailTrace> {
+    const middleware = [...this.middleware];
+    const trace: MailTrace = {
+      mail,
+      entries: this.sortedHandlers.map(handler => ({
+        handlerId: handler.id,
+        priority: handler.priority || 0,
+        mode: handler.mode ?? 'consumer',
+        matched: false,
+        durationMs: 0
+      })),
+      results: []
+    };
+
+    const observers: Promise<void>[] = [];
+    const consumers: Array<[MailHandler, HandlerTraceEntry]> = [];
+    this.sortedHandlers.forEach((handler, i) => {
+      if (trace.entries[i].mode === 'observer') {
+        observers.push(this.attempt(handler, trace.entries[i], mail, middleware));
+      } else {
+        consumers.push([handler, trace.entries[i]]);
+      }
+    });
+
+    for (const [handler, entry] of consumers) {
+      if (trace.handledBy) {
+        entry.skipped = true;
+        continue;
+      }
+      await this.attempt(handler, entry, mail, middleware);
+
+      // If handler fully processed the mail, stop processing
+      if (entry.result?.handled && !entry.result.error) {
+        trace.handledBy = handler.id;
+      }
+    }
+    await Promise.all(observers);
+
+    for (const entry of trace.entries) {
+      if (entry.result) {
+        trace.results.push(entry.result);
+      } else if (entry.error) {
+        trace.results.push({ handled: false, error: entry.error });
+      }
+    }
+    return trace;
+  }
+
+  /**
+   * Offer mail to one handler, recording the outcome on its trace entry
+   */
+  private async attempt(
+    handler: MailHandler,
+    entry: HandlerTraceEntry,
+    mail: Mail,
+    middleware: HandlerMiddleware[]
+  ): Promise<void> {
+    const started = performance.now();
+    try {
+      entry.matched = handler.canHandle(mail);
+      if (!entry.matched) {
+        entry.failedClause = handler.explain?.(mail) ?? 'canHandle';
+      } else {
+        entry.result = await this.withTimeout(handler, this.execute(handler, mail, middleware));
+      }
+    } catch (error) {
+      entry.error = error instanceof Error ? error : new Error(String(error));
+    }
+    entry.durationMs = performance.now() - started;
+  }
+
+  /**
+   * Stop waiting for a handler after its timeout
+   */
+  private withTimeout(handler: MailHandler, running: Promise<MailHandlerResult>): Promise<MailHandlerResult> {
+    const timeout = handler.timeout ?? this.handlerTimeout;
+    if (timeout === undefined || timeout === Infinity) {
+      return running;
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new HandlerTimeoutError(handler.id, timeout)), timeout);
+    });
+    return Promise.race([running, timedOut]).finally(() => clearTimeout(timer));
+  }
+
+  /**
+   * Run a handler inside the middleware chain
+   */
+  private execute(handler: MailHandler, mail: Mail, middleware: HandlerMiddleware[]): Promise<MailHandlerResult> {
+    const context: HandlerContext = { mail, handler };
+    const next = (index: number): Promise<MailHandlerResult> => index < middleware.length
+      ? middleware[index](context, () => next(index + 1))
+      : handler.handle(mail);
+    return next(0);
+  }
+
   /**
    * Update sorted handlers array
    */
@@ -3,6 +3,9 @@
  */
 
 import type { Mail } from '../types/mail.js';
+import { getMailParts, getPartText } from '../utils/mime.js';
+import { getMailHeaders } from '../utils/rfc2822.js';
+import type { MailPart } from '../utils/mime.js';
 
 /**
  * Response decoder options
@@ -23,6 +26,12 @@ export interface ResponseDecoderOptions {
    */
   parseBooleans?: boolean;
 
+  /**
+   * Whether multipart mail is decoded from its application/json part
+   * when it has one (default true)
+   */
+  preferJsonPart?: boolean;
+
   /**
    * Custom decoder function
    */
@@ -40,6 +49,7 @@ export class ResponseDecoder {
       parseJson: true,
       extractJson: true,
       parseBooleans: true,
+      preferJsonPart: true,
       ...options
     };
   }
@@ -48,7 +58,16 @@ export class ResponseDecoder {
    * Decode mail body
    */
   decode(mail: Mail): any {
-    const body = mail.body;
+    const parts = getMultipartParts(mail);
+    if (parts && this.options.preferJsonPart && !this.options.customDecoder) {
+      const jsonPart = parts.find(isJsonPart);
+      const json = jsonPart ? this.tryParseJson(getPartText(jsonPart)) : null;
+      if (json !== null) {
+        return json;
+      }
+    }
+
+    const body = parts ? getPrimaryText(parts) : mail.body;
 
     // No body to decode
     if (body === null || body === undefined || body === '') {
@@ -203,7 +222,7 @@ export class ResponseDecoder {
     }
 
     // Check body text for success indicators
-    const bodyText = String(mail.body).toLowerCase();
+    const bodyText = getBodyText(mail).toLowerCase();
     return bodyText.includes('success') || 
            bodyText.includes('completed') || 
            bodyText.includes('created') ||
@@ -226,7 +245,7 @@ export class ResponseDecoder {
     }
 
     // Check body for error patterns
-    const bodyText = String(mail.body);
+    const bodyText = getBodyText(mail);
     const errorMatch = bodyText.match(/error:\s*(.+)/i);
     if (errorMatch) {
       return errorMatch[1].trim();
@@ -234,4 +253,39 @@ export class ResponseDecoder {
 
     return null;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Leaf parts of a multipart mail, or null for single-part mail
+ */
+function getMultipartParts(mail: Mail): MailPart[] | null {
+  if (typeof mail.body !== 'string') {
+    return null;
+  }
+  const contentType = getMailHeaders(mail).get('Content-Type');
+  return contentType?.trim().toLowerCase().startsWith('multipart/') ? getMailParts(mail) : null;
+}
+
+/**
+ * application/json or a +json type such as application/problem+json
+ */
+function isJsonPart(part: MailPart): boolean {
+  return part.contentType === 'application/json' || part.contentType.endsWith('+json');
+}
+
+/**
+ * Text of the first text part, else of the first non-attachment part
+ */
+function getPrimaryText(parts: MailPart[]): string {
+  const inline = parts.filter(part => !part.filename);
+  const primary = inline.find(part => part.contentType.startsWith('text/')) ?? inline[0];
+  return primary ? getPartText(primary) : '';
+}
+
+/**
+ * Body as text, using the primary part of multipart mail
+ */
+function getBodyText(mail: Mail): string {
+  const parts = getMultipartParts(mail);
+  return parts ? getPrimaryText(parts) : String(mail.body);
+}
@@ -0,0 +1,19 @@
+/**
+ * Handler error types
+ */
+
+/**
+ * Raised when a handler doesn't settle within its timeout
+ * The handler itself keeps running; only the registry stops waiting
+ */
+export class HandlerTimeoutError extends Error {
+  readonly handlerId: string;
+  readonly timeout: number;
+
+  constructor(handlerId: string, timeout: number) {
+    super(`Handler '${handlerId}' timed out after ${timeout}ms`);
+    this.name = 'HandlerTimeoutError';
+    this.handlerId = handlerId;
+    this.timeout = timeout;
+  }
+}
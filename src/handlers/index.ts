@@ -5,9 +5,23 @@
 // Types
 export * from './types.js';
 
+// Errors
+export { HandlerTimeoutError } from './errors.js';
+
 // Base handler
 export { BaseMailHandler } from './BaseMailHandler.js';
 
+// Matcher combinators and predicates, namespaced so names like `any`
+// and `from` don't collide with the rest of the package
+export * as matchers from './matchers.js';
+export {
+  matchesMail,
+  explainMatch,
+  toPredicate,
+  matchText,
+  matchAddressText
+} from './matchers.js';
+
 // Handler registry
 export { MailHandlerRegistry } from './MailHandlerRegistry.js';
 
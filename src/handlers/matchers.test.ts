@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import * as root from '../index.js';
+import type { Mail } from '../types/mail.js';
+import { AddressClass } from '../utils/address.js';
+import { matchers } from './index.js';
+
+const { all, any, not, from, to, subject, hasHeader, fromClass, fromAddress, toAddress, bodyJson } = matchers;
+
+function mail(overrides: Partial<Mail> = {}): Mail {
+  return {
+    from_address: 'Planner <planner@swarm.ltngt.ai>',
+    to_address: 'alice@example.com, Bob <bob@example.com>',
+    subject: 'Task Update',
+    body: '{"status": "completed"}',
+    ...overrides
+  };
+}
+
+describe('matchers', () => {
+  it('matches address fields as text with mode and ignoreCase', () => {
+    expect(root.matchesMail({ from: 'planner@swarm' }, mail())).toBe(true);
+    expect(root.matchesMail({ from: 'Planner' }, mail())).toBe(true);
+    expect(root.matchesMail({ from: 'planner@swarm.ltngt.ai', mode: 'exact' }, mail())).toBe(false);
+    expect(root.matchesMail({ to: 'BOB@', ignoreCase: true }, mail())).toBe(true);
+    expect(to(/^bob@/)(mail())).toBe(true);
+  });
+
+  it('compares mailboxes only through fromAddress and toAddress', () => {
+    expect(fromAddress('PLANNER@swarm.ltngt.ai')(mail())).toBe(true);
+    expect(fromAddress('planner@swarm')(mail())).toBe(false);
+    expect(toAddress('bob@example.com')(mail())).toBe(true);
+    expect(toAddress('carol@example.com')(mail())).toBe(false);
+  });
+
+  it('combines predicates and plain objects and names the failing clause', () => {
+    const matcher = all(
+      { subject: 'task update', ignoreCase: true },
+      fromClass(AddressClass.SWARM_AGENT),
+      any(bodyJson('status', 'completed'), bodyJson('status', 'failed')),
+      not(hasHeader('X-Internal'))
+    );
+
+    expect(root.matchesMail(matcher, mail())).toBe(true);
+    expect(root.explainMatch(matcher, mail({ headers: { 'x-internal': '1' } }))).toBe('not(hasHeader("X-Internal"))');
+    expect(root.explainMatch(all(subject('Progress'), from('planner')), mail())).toBe('subject("Progress")');
+  });
+
+  it('keeps the generic combinator names out of the package root', () => {
+    expect(root.matchers.any).toBe(any);
+    expect('any' in root).toBe(false);
+    expect('from' in root).toBe(false);
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Composable mail matchers
+ *
+ * Plain matcher objects and predicates combine freely, e.g.
+ * all({ subject: 'Progress' }, fromClass(AddressClass.SWARM_AGENT), not(hasHeader('X-Internal')))
+ * The package exports the combinators under the `matchers` namespace
+ */
+
+import type { Mail } from '../types/mail.js';
+import { classifyAddress, isSameAddress, parseAddressList } from '../utils/address.js';
+import type { AddressClass } from '../utils/address.js';
+import { getMailHeaders } from '../utils/rfc2822.js';
+import { ResponseDecoder } from './ResponseDecoder.js';
+import type { MailMatcher, MailMatcherLike, MailPredicate, TextMatchOptions } from './types.js';
+
+const decoder = new ResponseDecoder();
+
+/**
+ * Predicate that can name the clause rejecting a mail
+ */
+interface ClausePredicate extends MailPredicate {
+  clause: string;
+  explain: (mail: Mail) => string | null;
+}
+
+/**
+ * Check mail against a matcher object or predicate
+ */
+export function matchesMail(matcher: MailMatcherLike, mail: Mail): boolean {
+  return toPredicate(matcher)(mail);
+}
+
+/**
+ * Name the clause of a matcher that rejects a mail, e.g. `subject("Progress")`,
+ * or null if the mail matches
+ * Predicates written by hand are named after the function
+ */
+export function explainMatch(matcher: MailMatcherLike, mail: Mail): string | null {
+  const predicate = toPredicate(matcher);
+  if (isClausePredicate(predicate)) {
+    return predicate.explain(mail);
+  }
+  return predicate(mail) ? null : describe(predicate);
+}
+
+/**
+ * Turn a matcher object into a predicate; predicates pass through
+ */
+export function toPredicate(matcher: MailMatcherLike): MailPredicate {
+  return typeof matcher === 'function' ? matcher : objectPredicate(matcher);
+}
+
+/**
+ * Matches when every matcher does
+ */
+export function all(...matchers: MailMatcherLike[]): MailPredicate {
+  const predicates = matchers.map(toPredicate);
+  return withClause(
+    `all(${predicates.map(describe).join(', ')})`,
+    mail => predicates.every(predicate => predicate(mail)),
+    mail => {
+      for (const predicate of predicates) {
+        const failed = explainMatch(predicate, mail);
+        if (failed !== null) {
+          return failed;
+        }
+      }
+      return null;
+    }
+  );
+}
+
+/**
+ * Matches when at least one matcher does
+ */
+export function any(...matchers: MailMatcherLike[]): MailPredicate {
+  const predicates = matchers.map(toPredicate);
+  return withClause(
+    `any(${predicates.map(describe).join(', ')})`,
+    mail => predicates.some(predicate => predicate(mail))
+  );
+}
+
+/**
+ * Matches when the matcher doesn't
+ */
+export function not(matcher: MailMatcherLike): MailPredicate {
+  const predicate = toPredicate(matcher);
+  return withClause(`not(${describe(predicate)})`, mail => !predicate(mail));
+}
+
+/**
+ * Match the subject
+ */
+export function subject(pattern: string | RegExp, options: TextMatchOptions = {}): MailPredicate {
+  return withClause(
+    `subject(${describePattern(pattern, options)})`,
+    mail => matchText(mail.subject, pattern, options)
+  );
+}
+
+/**
+ * Match the sender text; use fromAddress to compare the mailbox itself
+ */
+export function from(pattern: string | RegExp, options: TextMatchOptions = {}): MailPredicate {
+  return withClause(
+    `from(${describePattern(pattern, options)})`,
+    mail => matchAddressText(mail.from_address, pattern, options)
+  );
+}
+
+/**
+ * Match the recipients text; use toAddress to compare mailboxes
+ */
+export function to(pattern: string | RegExp, options: TextMatchOptions = {}): MailPredicate {
+  return withClause(
+    `to(${describePattern(pattern, options)})`,
+    mail => matchAddressText(mail.to_address, pattern, options)
+  );
+}
+
+/**
+ * Matches mail from the given mailbox, whatever the display name or case
+ */
+export function fromAddress(address: string): MailPredicate {
+  return withClause(`fromAddress(${JSON.stringify(address)})`, mail => hasMailbox(mail.from_address, address));
+}
+
+/**
+ * Matches mail with the given mailbox among its recipients, whatever the
+ * display name or case
+ */
+export function toAddress(address: string): MailPredicate {
+  return withClause(`toAddress(${JSON.stringify(address)})`, mail => hasMailbox(mail.to_address, address));
+}
+
+/**
+ * Match the body text
+ */
+export function body(pattern: string | RegExp, options: TextMatchOptions = {}): MailPredicate {
+  return withClause(
+    `body(${describePattern(pattern, options)})`,
+    mail => matchText(mail.body || '', pattern, options)
+  );
+}
+
+/**
+ * Match a header value; header names are case-insensitive
+ * Mail without the header never matches
+ */
+export function header(name: string, pattern: string | RegExp, options: TextMatchOptions = {}): MailPredicate {
+  return withClause(`header(${JSON.stringify(name)}, ${describePattern(pattern, options)})`, mail => {
+    const value = getMailHeaders(mail).get(name);
+    return value !== undefined && matchText(value, pattern, options);
+  });
+}
+
+/**
+ * Matches mail that has the header, whatever its value
+ */
+export function hasHeader(name: string): MailPredicate {
+  return withClause(`hasHeader(${JSON.stringify(name)})`, mail => getMailHeaders(mail).has(name));
+}
+
+/**
+ * Matches mail whose sender is in one of the address classes
+ */
+export function fromClass(...classes: AddressClass[]): MailPredicate {
+  return withClause(
+    `fromClass(${classes.join(', ')})`,
+    mail => classes.includes(classifyAddress(mail.from_address))
+  );
+}
+
+/**
+ * Matches mail with at least one recipient in one of the address classes
+ */
+export function toClass(...classes: AddressClass[]): MailPredicate {
+  return withClause(
+    `toClass(${classes.join(', ')})`,
+    mail => parseAddressList(mail.to_address).some(address => classes.includes(classifyAddress(address)))
+  );
+}
+
+/**
+ * Match a value in the decoded JSON body by path, e.g.
+ * bodyJson('status', 'completed') or bodyJson('data.items[0].id')
+ * Without an expected value the path only has to exist; a RegExp
+ * tests string values, anything else must be equal
+ */
+export function bodyJson(path: string, expected?: unknown): MailPredicate {
+  const clause = expected === undefined
+    ? `bodyJson(${JSON.stringify(path)})`
+    : `bodyJson(${JSON.stringify(path)}, ${expected instanceof RegExp ? String(expected) : JSON.stringify(expected)})`;
+
+  return withClause(clause, mail => {
+    const decoded = decoder.decode(mail);
+    if (typeof decoded !== 'object' || decoded === null) {
+      return false;
+    }
+
+    const value = path.split(/[.\[\]]/).filter(Boolean)
+      .reduce<any>((current, key) => current === null || current === undefined ? undefined : current[key], decoded);
+    if (expected === undefined) {
+      return value !== undefined;
+    }
+    if (expected instanceof RegExp) {
+      return typeof value === 'string' && expected.test(value);
+    }
+    return isEqual(value, expected);
+  });
+}
+
+/**
+ * Match a field against a pattern
+ */
+export function matchText(field: string, pattern: string | RegExp, options: TextMatchOptions = {}): boolean {
+  if (typeof pattern !== 'string') {
+    return pattern.test(field);
+  }
+
+  const value = options.ignoreCase ? field.toLowerCase() : field;
+  const expected = options.ignoreCase ? pattern.toLowerCase() : pattern;
+  return options.mode === 'exact' ? value === expected : value.includes(expected);
+}
+
+/**
+ * Match an address field against a pattern
+ * Strings match the field text like matchText; a RegExp is tried on each
+ * bare address and on the whole field
+ */
+export function matchAddressText(field: string, pattern: string | RegExp, options: TextMatchOptions = {}): boolean {
+  if (typeof pattern === 'string') {
+    return matchText(field, pattern, options);
+  }
+  return parseAddressList(field).some(address => pattern.test(address.address)) || pattern.test(field);
+}
+
+/**
+ * Check whether an address field lists the given mailbox
+ */
+function hasMailbox(field: string, address: string): boolean {
+  return parseAddressList(field).some(candidate => isSameAddress(candidate, address));
+}
+
+/**
+ * Predicate checking every field a matcher object sets
+ */
+function objectPredicate(matcher: MailMatcher): MailPredicate {
+  const options: TextMatchOptions = {
+    ...(matcher.mode ? { mode: matcher.mode } : {}),
+    ...(matcher.ignoreCase ? { ignoreCase: matcher.ignoreCase } : {})
+  };
+
+  const predicates: MailPredicate[] = [];
+  if (matcher.subject) {
+    predicates.push(subject(matcher.subject, options));
+  }
+  if (matcher.from) {
+    predicates.push(from(matcher.from, options));
+  }
+  if (matcher.to) {
+    predicates.push(to(matcher.to, options));
+  }
+  if (matcher.body) {
+    predicates.push(body(matcher.body, options));
+  }
+  for (const [name, pattern] of Object.entries(matcher.headers ?? {})) {
+    predicates.push(header(name, pattern, options));
+  }
+
+  return all(...predicates);
+}
+
+/**
+ * Label a predicate; by default it explains a rejection with its own clause
+ */
+function withClause(
+  clause: string,
+  test: MailPredicate,
+  explain: (mail: Mail) => string | null = mail => test(mail) ? null : clause
+): MailPredicate {
+  return Object.assign((mail: Mail) => test(mail), { clause, explain });
+}
+
+/**
+ * Check whether a predicate was built here
+ */
+function isClausePredicate(predicate: MailPredicate): predicate is ClausePredicate {
+  return typeof (predicate as Partial<ClausePredicate>).explain === 'function';
+}
+
+/**
+ * Name of a predicate for explanations
+ */
+function describe(predicate: MailPredicate): string {
+  return isClausePredicate(predicate) ? predicate.clause : predicate.name || 'predicate';
+}
+
+/**
+ * Show a pattern with its match options
+ */
+function describePattern(pattern: string | RegExp, options: TextMatchOptions): string {
+  const flags = [
+    ...(options.mode === 'exact' ? ['exact'] : []),
+    ...(options.ignoreCase ? ['ignoreCase'] : [])
+  ];
+  const text = typeof pattern === 'string' ? JSON.stringify(pattern) : String(pattern);
+  return [text, ...flags].join(', ');
+}
+
+/**
+ * Structural equality for JSON values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false;
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
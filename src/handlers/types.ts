@@ -13,6 +13,14 @@ export interface MailHandlerResult {
   error?: Error;
 }
 
+/**
+ * How a handler takes part in processing:
+ * - consumer: handlers run one at a time by priority until one
+ *   processes the mail
+ * - observer: always runs, alongside the consumers, and never stops them
+ */
+export type HandlerMode = 'consumer' | 'observer';
+
 /**
  * Mail handler interface
  */
@@ -27,35 +35,160 @@ export interface MailHandler {
    */
   priority?: number;
 
+  /**
+   * Defaults to consumer
+   */
+  mode?: HandlerMode;
+
+  /**
+   * ms to wait for handle() before giving up with a HandlerTimeoutError;
+   * overrides the registry default
+   */
+  timeout?: number;
+
   /**
    * Check if this handler can process the given mail
    */
   canHandle(mail: Mail): boolean;
 
+  /**
+   * Name the matcher clause that rejects the mail, for traces
+   */
+  explain?(mail: Mail): string | null;
+
   /**
    * Handle the mail and return result
    */
   handle(mail: Mail): Promise<MailHandlerResult>;
 }
 
+/**
+ * What a middleware sees of the handler it wraps
+ */
+export interface HandlerContext {
+  mail: Mail;
+  handler: MailHandler;
+}
+
+/**
+ * Wraps every handler call; call next() to run the rest of the chain
+ * and the handler, or return a result without calling it
+ */
+export type HandlerMiddleware = (
+  context: HandlerContext,
+  next: () => Promise<MailHandlerResult>
+) => Promise<MailHandlerResult>;
+
+/**
+ * How one handler dealt with a traced mail
+ */
+export interface HandlerTraceEntry {
+  handlerId: string;
+  priority: number;
+  mode: HandlerMode;
+  /**
+   * canHandle passed
+   */
+  matched: boolean;
+  /**
+   * The matcher clause that rejected the mail
+   */
+  failedClause?: string;
+  /**
+   * Consumer not asked because an earlier one processed the mail
+   */
+  skipped?: boolean;
+  /**
+   * ms spent matching and handling
+   */
+  durationMs: number;
+  result?: MailHandlerResult;
+  /**
+   * Thrown by canHandle, the handler or a middleware, or a
+   * HandlerTimeoutError
+   */
+  error?: Error;
+}
+
+/**
+ * Result of MailHandlerRegistry.trace
+ */
+export interface MailTrace {
+  mail: Mail;
+  /**
+   * Every registered handler in priority order
+   */
+  entries: HandlerTraceEntry[];
+  results: MailHandlerResult[];
+  /**
+   * The consumer that processed the mail, if any
+   */
+  handledBy?: string;
+}
+
+/**
+ * How a string pattern is compared with a field
+ */
+export interface TextMatchOptions {
+  /**
+   * 'contains' (default) or 'exact'
+   */
+  mode?: 'exact' | 'contains';
+  ignoreCase?: boolean;
+}
+
 /**
  * Mail matcher interface for flexible matching
+ * All given fields must match; string patterns follow mode and ignoreCase
  */
-export interface MailMatcher {
+export interface MailMatcher extends TextMatchOptions {
   subject?: string | RegExp;
   from?: string | RegExp;
   to?: string | RegExp;
   body?: string | RegExp;
+  /**
+   * Mail without one of these headers doesn't match
+   */
   headers?: Record<string, string | RegExp>;
 }
 
+/**
+ * Matcher built with the combinators in matchers.ts
+ */
+export type MailPredicate = (mail: Mail) => boolean;
+
+/**
+ * A plain matcher object or a composed predicate
+ */
+export type MailMatcherLike = MailMatcher | MailPredicate;
+
 /**
  * Base mail handler configuration
  */
 export interface MailHandlerConfig {
   id: string;
   priority?: number;
-  matcher?: MailMatcher;
+  mode?: HandlerMode;
+  timeout?: number;
+  matcher?: MailMatcherLike;
+}
+
+/**
+ * Mail handler registry configuration
+ */
+export interface MailHandlerRegistryConfig {
+  /**
+   * ms to wait for a handler that sets no timeout of its own
+   * (default: no limit)
+   */
+  handlerTimeout?: number;
+  /**
+   * Process mail from one sender in arrival order while different
+   * senders run concurrently (default false)
+   * A handler holds back its sender's later mail until it settles or
+   * times out, so set handlerTimeout along with this
+   */
+  orderBySender?: boolean;
 }
 
 /**
@@ -0,0 +1,155 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { LoopbackMailTransport } from '../transport/LoopbackMailTransport.js';
+import { FakeUiAgent } from '../transport/FakeUiAgent.js';
+import type { Mail } from '../types/mail.js';
+import { ServiceBase, ServiceEvent } from './ServiceBase.js';
+import type { DispatchErrorEvent, ResponseMismatchEvent, ServiceConfig } from './ServiceBase.js';
+
+class TestService extends ServiceBase {
+  registry = this.handlers;
+
+  checked: Array<{ messageId: string; expectedSubject: string | RegExp }> = [];
+  unhandledError: Error | null = null;
+
+  ask(subject: string, expectSubject?: string): Promise<Mail> {
+    return this.sendToUiAgent(subject, '{}', expectSubject ? { expectSubject } : {});
+  }
+
+  protected override isResponse(mail: Mail, messageId: string, expectedSubject: string | RegExp): boolean {
+    this.checked.push({ messageId, expectedSubject });
+    return super.isResponse(mail, messageId, expectedSubject);
+  }
+
+  protected override handleUnhandledMail(mail: Mail): void {
+    if (this.unhandledError) {
+      throw this.unhandledError;
+    }
+    super.handleUnhandledMail(mail);
+  }
+}
+
+/**
+ * Let scheduled deliveries and the dispatch behind them run
+ */
+const settle = () => new Promise(resolve => setTimeout(resolve, 10));
+
+describe('ServiceBase', () => {
+  let agent: FakeUiAgent;
+  let transport: LoopbackMailTransport;
+  let service: TestService;
+
+  beforeEach(async () => {
+    agent = new FakeUiAgent();
+    transport = new LoopbackMailTransport({ agent });
+    await transport.connect();
+  });
+
+  afterEach(async () => {
+    service.dispose();
+    await transport.disconnect();
+  });
+
+  function createService(config: Partial<ServiceConfig> = {}): TestService {
+    service = new TestService({ transport, timeout: 1000, ...config });
+    return service;
+  }
+
+  describe('sendAndWait', () => {
+    it('matches concurrent responses by correlation id even when they overtake each other', async () => {
+      createService();
+      agent.reply('List Tasks for Project: a', { subject: 'Task List Response', body: { project: 'a' }, delay: 30 });
+      agent.reply('List Tasks for Project: b', { subject: 'Task List Response', body: { project: 'b' }, delay: 0 });
+
+      const [a, b] = await Promise.all([service.ask('List Tasks for Project: a'), service.ask('List Tasks for Project: b')]);
+
+      expect(JSON.parse(a.body).project).toBe('a');
+      expect(JSON.parse(b.body).project).toBe('b');
+    });
+
+    it('reports a response whose correlation id no request has', async () => {
+      createService();
+      const mismatches: ResponseMismatchEvent[] = [];
+      service.on(ServiceEvent.RESPONSE_MISMATCH, event => mismatches.push(event));
+
+      transport.deliver({
+        from_address: agent.email,
+        to_address: transport.getUserEmail()!,
+        subject: 'Task List Response',
+        body: '{}',
+        headers: { 'X-Correlation-ID': 'stale' }
+      });
+      await settle();
+
+      expect(mismatches).toMatchObject([{ reason: 'unknown_correlation_id', correlationId: 'stale' }]);
+    });
+
+    it('consults an overridden isResponse for legacy subject matching', async () => {
+      createService({ legacySubjectMatching: true });
+      // A server that neither echoes the correlation id nor sets In-Reply-To
+      agent.reply('Get Project: p1', request => {
+        transport.deliver({
+          from_address: agent.email,
+          to_address: request.from_address,
+          subject: 'Project Details Response',
+          body: '{}'
+        });
+        return null;
+      });
+
+      const response = await service.ask('Get Project: p1', 'Project Details Response');
+
+      expect(response.subject).toBe('Project Details Response');
+      expect(service.checked[0]).toMatchObject({ expectedSubject: 'Project Details Response' });
+      expect(service.checked[0].messageId).toMatch(/^<.*>$/);
+    });
+
+    it('resolves a reply without waiting behind a slow handler for the same sender', async () => {
+      createService({ orderBySender: true });
+      let release = () => {};
+      service.registry.register({
+        id: 'slow-progress',
+        canHandle: mail => mail.subject === 'Progress',
+        handle: () => new Promise(resolve => {
+          release = () => resolve({ handled: true });
+        })
+      });
+      agent.reply('Get Project: p1', { subject: 'Project Details Response', body: {}, delay: 10 });
+
+      transport.deliver({ from_address: agent.email, to_address: transport.getUserEmail()!, subject: 'Progress', body: '{}' });
+      await settle();
+      const response = await service.ask('Get Project: p1');
+      release();
+
+      expect(response.subject).toBe('Project Details Response');
+    });
+  });
+
+  describe('inbound dispatch', () => {
+    function agentMail(headers: Record<string, string> = {}): Mail {
+      return { from_address: agent.email, to_address: transport.getUserEmail()!, subject: 'Progress', body: '{}', headers };
+    }
+
+    it('passes mail with malformed header names on to the unhandled hook', async () => {
+      createService();
+      const unhandled: Mail[] = [];
+      service.on(ServiceEvent.UNHANDLED_MAIL, mail => unhandled.push(mail));
+
+      transport.deliver(agentMail({ 'X Weird': '1' }));
+      await settle();
+
+      expect(unhandled).toHaveLength(1);
+    });
+
+    it('reports dispatch failures instead of leaving the rejection unhandled', async () => {
+      createService();
+      service.unhandledError = new Error('hook failed');
+      const errors: DispatchErrorEvent[] = [];
+      service.on(ServiceEvent.DISPATCH_ERROR, event => errors.push(event));
+
+      transport.deliver(agentMail());
+      await settle();
+
+      expect(errors).toMatchObject([{ mail: { subject: 'Progress' }, error: { message: 'hook failed' } }]);
+    });
+  });
+});
@@ -2,37 +2,146 @@
  * Base Service Class
  */
 
-import { MailTransportAdapter } from '../transport/MailTransportAdapter.js';
+import type { MailTransport, SendMailOptions } from '../transport/types.js';
 import type { Mail } from '../types/mail.js';
 import { MailHandlerRegistry } from '../handlers/MailHandlerRegistry.js';
+import type { MailHandler } from '../handlers/types.js';
 import { ResponseDecoder } from '../handlers/ResponseDecoder.js';
-import { UI_OPERATION_TIMEOUT_MS, DEFAULT_UI_AGENT_EMAIL } from '../transport/constants.js';
+import {
+  UI_OPERATION_TIMEOUT_MS,
+  DEFAULT_UI_AGENT_EMAIL,
+  CORRELATION_ID_HEADER
+} from '../transport/constants.js';
+import { isAgentAddress, isSameAddress } from '../utils/address.js';
+import { EventEmitter } from '../utils/EventEmitter.js';
+import { generateCorrelationId, getMailHeaders } from '../utils/rfc2822.js';
 
 /**
  * Service configuration
  */
 export interface ServiceConfig {
-  transport: MailTransportAdapter;
+  transport: MailTransport;
   uiAgentEmail?: string;
   timeout?: number;
+  /**
+   * Also accept responses by subject when neither the correlation id
+   * nor In-Reply-To matches (default false)
+   */
+  legacySubjectMatching?: boolean;
+  /**
+   * ms before a hung mail handler is given up on (default: no limit)
+   */
+  handlerTimeout?: number;
+  /**
+   * Hand mail from one sender to the handlers in arrival order
+   * (default false); responses to pending requests never wait
+   */
+  orderBySender?: boolean;
+}
+
+/**
+ * Options for ServiceBase.sendAndWait
+ */
+export interface SendAndWaitOptions {
+  timeout?: number;
+  inReplyTo?: string;
+  references?: string[];
+  headers?: Record<string, string>;
+  /**
+   * Subject for legacy matching; defaults to the request subject
+   */
+  expectSubject?: string | RegExp;
+  /**
+   * Defaults to a fresh id
+   */
+  correlationId?: string;
+  /**
+   * Overrides legacySubjectMatching for this request
+   */
+  matchSubject?: boolean;
+}
+
+export enum ServiceEvent {
+  RESPONSE_MISMATCH = 'response_mismatch',
+  UNHANDLED_MAIL = 'unhandled_mail',
+  DISPATCH_ERROR = 'dispatch_error'
+}
+
+/**
+ * Why an inbound mail that looked like a response was not used as one:
+ * - unknown_correlation_id: no pending request has its correlation id,
+ *   e.g. it arrived after the request timed out
+ * - correlation_id_mismatch: matched by In-Reply-To, but its
+ *   correlation id belongs to no pending request
+ * - subject_only: only the subject matches and legacy matching is off
+ */
+export type ResponseMismatchReason = 'unknown_correlation_id' | 'correlation_id_mismatch' | 'subject_only';
+
+export interface ResponseMismatchEvent {
+  mail: Mail;
+  reason: ResponseMismatchReason;
+  correlationId?: string;
+  /**
+   * The request the mail was matched to or resembled
+   */
+  request?: { messageId: string; correlationId: string };
+}
+
+/**
+ * Payload of ServiceEvent.DISPATCH_ERROR
+ */
+export interface DispatchErrorEvent {
+  mail: Mail;
+  error: unknown;
+}
+
+export type ServiceEventMap = {
+  [ServiceEvent.RESPONSE_MISMATCH]: [event: ResponseMismatchEvent];
+  [ServiceEvent.UNHANDLED_MAIL]: [mail: Mail];
+  [ServiceEvent.DISPATCH_ERROR]: [event: DispatchErrorEvent];
+};
+
+/**
+ * Request waiting for its response
+ */
+interface PendingRequest {
+  messageId: string;
+  correlationId: string;
+  expectSubject: string | RegExp;
+  matchSubject: boolean;
+  resolve: (mail: Mail) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
 }
 
 /**
  * Base class for services that communicate via mail
  */
-export abstract class ServiceBase {
-  protected transport: MailTransportAdapter;
+export abstract class ServiceBase extends EventEmitter<ServiceEventMap> {
+  protected transport: MailTransport;
   protected uiAgentEmail: string;
   protected defaultTimeout: number;
+  protected legacySubjectMatching: boolean;
   protected handlers: MailHandlerRegistry;
   protected decoder: ResponseDecoder;
+  private pendingRequests = new Map<string, PendingRequest>();
+  private mailListener = (mail: Mail) => {
+    // Nobody awaits the dispatch, so a rejection must be reported here
+    this.dispatchMail(mail).catch(error => this.handleDispatchError(mail, error));
+  };
 
   constructor(config: ServiceConfig) {
+    super();
     this.transport = config.transport;
     this.uiAgentEmail = config.uiAgentEmail || DEFAULT_UI_AGENT_EMAIL;
     this.defaultTimeout = config.timeout || UI_OPERATION_TIMEOUT_MS;
-    this.handlers = new MailHandlerRegistry();
+    this.legacySubjectMatching = config.legacySubjectMatching ?? false;
+    this.handlers = new MailHandlerRegistry({
+      ...(config.handlerTimeout !== undefined ? { handlerTimeout: config.handlerTimeout } : {}),
+      ...(config.orderBySender !== undefined ? { orderBySender: config.orderBySender } : {})
+    });
     this.decoder = new ResponseDecoder();
+    this.transport.onMail(this.mailListener);
   }
 
   /**
@@ -86,58 +195,65 @@ export abstract class ServiceBase {
 
   /**
    * Send mail and wait for response
+   * The request carries an X-Correlation-ID; a response matches on that,
+   * then on In-Reply-To, and on subject only when enabled
    */
   protected async sendAndWait(
     to: string,
     subject: string,
     body: string,
-    options?: {
-      timeout?: number;
-      inReplyTo?: string;
-      headers?: Record<string, string>;
-      expectSubject?: string | RegExp;
-    }
+    options?: SendAndWaitOptions
   ): Promise<Mail> {
     const timeout = options?.timeout || this.defaultTimeout;
     const messageId = this.generateMessageId();
+    const correlationId = options?.correlationId || generateCorrelationId();
 
-    // Create response promise
+    // Register before sending so a fast reply can't slip past
     const responsePromise = new Promise<Mail>((resolve, reject) => {
-      const timer = setTimeout(() => {
-        cleanup();
-        reject(new Error(`Request timeout: ${subject}`));
-      }, timeout);
-
-      const cleanup = () => {
-        clearTimeout(timer);
-        this.transport.offMail(mailHandler);
-      };
-
-      const mailHandler = (mail: Mail) => {
-        // Check if this is the response we're waiting for
-        if (this.isResponse(mail, messageId, options?.expectSubject || subject)) {
-          cleanup();
+      const request: PendingRequest = {
+        messageId,
+        correlationId,
+        expectSubject: options?.expectSubject || subject,
+        matchSubject: options?.matchSubject ?? this.legacySubjectMatching,
+        resolve: (mail: Mail) => {
+          this.removePendingRequest(request);
           resolve(mail);
-        }
+        },
+        reject: (error: Error) => {
+          this.removePendingRequest(request);
+          reject(error);
+        },
+        timer: setTimeout(() => request.reject(new Error(`Request timeout: ${subject}`)), timeout)
       };
-
-      this.transport.onMail(mailHandler);
+      this.addPendingRequest(request);
     });
 
     // Send the mail
-    const mailOptions: Parameters<typeof this.transport.sendMailTo>[3] = {
+    const mailOptions: SendMailOptions = {
+      messageId,
       timeout,
       headers: { 
         ...options?.headers,
-        'Message-ID': messageId 
+        'Message-ID': messageId,
+        [CORRELATION_ID_HEADER]: correlationId
       }
     };
     
     if (options?.inReplyTo) {
       mailOptions.inReplyTo = options.inReplyTo;
     }
+    if (options?.references) {
+      mailOptions.references = options.references;
+    }
     
-    await this.transport.sendMailTo(to, subject, body, mailOptions);
+    try {
+      await this.transport.sendMailTo(to, subject, body, mailOptions);
+    } catch (error) {
+      // Nobody awaits the response now - settle it quietly
+      responsePromise.catch(() => undefined);
+      this.pendingRequests.get(correlationId)?.reject(error as Error);
+      throw error;
+    }
 
     // Wait for response
     return responsePromise;
@@ -149,18 +265,165 @@ export abstract class ServiceBase {
   protected async sendToUiAgent(
     subject: string,
     body: string,
-    options?: {
-      timeout?: number;
-      headers?: Record<string, string>;
-      expectSubject?: string | RegExp;
-    }
+    options?: SendAndWaitOptions
   ): Promise<Mail> {
     await this.ensureUiAgent();
     return this.sendAndWait(this.uiAgentEmail, subject, body, options);
   }
 
   /**
-   * Check if mail is a response to our request
+   * Dispatch inbound mail through the handler registry
+   * Responses to pending requests are claimed first and skip the registry
+   */
+  protected async dispatchMail(mail: Mail): Promise<void> {
+    if (this.claimResponse(mail)) {
+      return;
+    }
+    const results = await this.handlers.process(mail);
+    if (!results.some(result => result.handled)) {
+      this.reportUnmatchedResponse(mail);
+      this.handleUnhandledMail(mail);
+    }
+  }
+
+  /**
+   * Hook for mail that no handler claimed
+   * Emits UNHANDLED_MAIL by default
+   */
+  protected handleUnhandledMail(mail: Mail): void {
+    this.emit(ServiceEvent.UNHANDLED_MAIL, mail);
+  }
+
+  /**
+   * Hook for errors while dispatching inbound mail
+   * Emits DISPATCH_ERROR by default
+   */
+  protected handleDispatchError(mail: Mail, error: unknown): void {
+    this.emit(ServiceEvent.DISPATCH_ERROR, { mail, error });
+  }
+
+  /**
+   * Register a handler for inbound mail, e.g. unsolicited agent updates
+   */
+  registerHandler(handler: MailHandler): void {
+    this.handlers.register(handler);
+  }
+
+  /**
+   * Unregister a mail handler
+   */
+  unregisterHandler(handlerId: string): boolean {
+    return this.handlers.unregister(handlerId);
+  }
+
+  /**
+   * Stop receiving mail and reject pending requests
+   */
+  dispose(): void {
+    this.transport.offMail(this.mailListener);
+    for (const request of [...this.pendingRequests.values()]) {
+      request.reject(new Error('Service disposed'));
+    }
+  }
+
+  /**
+   * How a mail answers a pending request, or null if it doesn't
+   * A correlation id of another pending request rules out the fallbacks
+   */
+  private matchResponse(mail: Mail, request: PendingRequest): 'correlation_id' | 'in_reply_to' | 'subject' | null {
+    const correlationId = getMailHeaders(mail).get(CORRELATION_ID_HEADER);
+    if (correlationId === request.correlationId) {
+      return 'correlation_id';
+    }
+    if (correlationId && this.pendingRequests.has(correlationId)) {
+      return null;
+    }
+    if (mail.in_reply_to && mail.in_reply_to === request.messageId) {
+      return 'in_reply_to';
+    }
+    // A correlation id we don't know means the mail answers someone else
+    if (!correlationId && request.matchSubject && this.isResponse(mail, request.messageId, request.expectSubject)) {
+      return 'subject';
+    }
+    return null;
+  }
+
+  /**
+   * Resolve the pending request a mail answers, if any
+   */
+  private claimResponse(mail: Mail): boolean {
+    for (const request of this.pendingRequests.values()) {
+      const match = this.matchResponse(mail, request);
+      if (!match) {
+        continue;
+      }
+      const correlationId = getMailHeaders(mail).get(CORRELATION_ID_HEADER);
+      if (correlationId && match === 'in_reply_to') {
+        this.reportMismatch(mail, 'correlation_id_mismatch', correlationId, request);
+      }
+      request.resolve(mail);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Report unclaimed mail that looks like a response to a request
+   */
+  private reportUnmatchedResponse(mail: Mail): void {
+    const correlationId = getMailHeaders(mail).get(CORRELATION_ID_HEADER);
+    if (correlationId) {
+      this.reportMismatch(mail, 'unknown_correlation_id', correlationId);
+      return;
+    }
+
+    const candidate = [...this.pendingRequests.values()]
+      .find(pending => this.isResponse(mail, pending.messageId, pending.expectSubject));
+    if (candidate) {
+      this.reportMismatch(mail, 'subject_only', undefined, candidate);
+    }
+  }
+
+  /**
+   * Emit a response mismatch for diagnostics
+   */
+  private reportMismatch(
+    mail: Mail,
+    reason: ResponseMismatchReason,
+    correlationId?: string,
+    request?: PendingRequest
+  ): void {
+    this.emit(ServiceEvent.RESPONSE_MISMATCH, {
+      mail,
+      reason,
+      ...(correlationId ? { correlationId } : {}),
+      ...(request ? { request: { messageId: request.messageId, correlationId: request.correlationId } } : {})
+    });
+  }
+
+  /**
+   * Track a request until its response arrives
+   */
+  private addPendingRequest(request: PendingRequest): void {
+    this.pendingRequests.set(request.correlationId, request);
+  }
+
+  /**
+   * Stop tracking a settled request
+   */
+  private removePendingRequest(request: PendingRequest): void {
+    clearTimeout(request.timer);
+    if (this.pendingRequests.get(request.correlationId) !== request) {
+      return;
+    }
+    this.pendingRequests.delete(request.correlationId);
+  }
+
+  /**
+   * Legacy match: In-Reply-To our message, or "Re:" or "Response:" plus
+   * the subject, or any subject containing it, from an agent
+   * Consulted only for legacy subject matching and mismatch reports
+   * @deprecated Responses match on X-Correlation-ID, then In-Reply-To
    */
   protected isResponse(mail: Mail, messageId: string, expectedSubject: string | RegExp): boolean {
     // Check if it's in reply to our message
@@ -168,6 +431,11 @@ export abstract class ServiceBase {
       return true;
     }
 
+    // Only agents answer by subject - an echo of our own request would match too
+    if (!this.isFromAgent(mail)) {
+      return false;
+    }
+
     // Check if subject matches expected pattern
     if (typeof expectedSubject === 'string') {
       // For string, check if response subject contains original
@@ -183,6 +451,13 @@ export abstract class ServiceBase {
     }
   }
 
+  /**
+   * Check if mail comes from our UI agent or another swarm agent
+   */
+  protected isFromAgent(mail: Mail): boolean {
+    return isSameAddress(mail.from_address, this.uiAgentEmail) || isAgentAddress(mail.from_address);
+  }
+
   /**
    * Generate unique message ID
    */
@@ -370,4 +645,4 @@ export abstract class ServiceBase {
     this.uiAgentEmail = email;
     this.transport.setUiAgentEmail(email);
   }
-}
\ No newline at end of file
+}
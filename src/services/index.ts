@@ -3,5 +3,12 @@
  */
 
 export * from './AuthServiceBase.js';
-export { ServiceBase } from './ServiceBase.js';
-export type { ServiceConfig } from './ServiceBase.js';
\ No newline at end of file
+export { ServiceBase, ServiceEvent } from './ServiceBase.js';
+export type {
+  ServiceConfig,
+  SendAndWaitOptions,
+  ServiceEventMap,
+  ResponseMismatchEvent,
+  DispatchErrorEvent,
+  ResponseMismatchReason
+} from './ServiceBase.js';
\ No newline at end of file
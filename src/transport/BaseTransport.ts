@@ -3,21 +3,28 @@
  */
 
 import { EventEmitter } from '../utils/EventEmitter.js';
+import { FixedReconnectStrategy } from './ReconnectStrategy.js';
+import type { ReconnectStrategy } from './ReconnectStrategy.js';
+import type { ApiError } from '../types/auth.js';
 import { TransportEvent, TransportState } from './types.js';
 import type { 
   Transport, 
   TransportConfig, 
+  TransportEventMap,
   TransportMessage, 
   TransportResponse
 } from './types.js';
 
 /**
  * Abstract base class for all transport implementations
+ * Subclasses that emit extra events pass an event map extending TransportEventMap
  */
-export abstract class BaseTransport extends EventEmitter implements Transport {
+export abstract class BaseTransport<Events extends TransportEventMap = TransportEventMap>
+  extends EventEmitter<Events> implements Transport {
   protected state: TransportState = TransportState.DISCONNECTED;
   protected config: TransportConfig;
   protected debug: boolean;
+  protected authRejected = false;
 
   constructor(config: TransportConfig = {}) {
     super();
@@ -81,6 +88,43 @@ export abstract class BaseTransport extends EventEmitter implements Transport {
     }
   }
 
+  /**
+   * Get the reconnect strategy, falling back to a fixed interval
+   * built from reconnectInterval/maxReconnectAttempts
+   */
+  protected getReconnectStrategy(): ReconnectStrategy {
+    if (this.config.reconnectStrategy) {
+      return this.config.reconnectStrategy;
+    }
+    return new FixedReconnectStrategy({
+      interval: this.config.reconnectInterval ?? 5000,
+      maxAttempts: this.config.maxReconnectAttempts ?? 5
+    });
+  }
+
+  /**
+   * Get a token from the configured provider, if any
+   */
+  protected async resolveAuthToken(): Promise<string | null> {
+    if (!this.config.authTokenProvider) {
+      return null;
+    }
+    return (await this.config.authTokenProvider()) || null;
+  }
+
+  /**
+   * Record that the server refused our credentials
+   * Reconnection stays off until connect() or reauthenticate() is called
+   */
+  protected handleAuthRejected(message: string, code = 'auth_rejected'): void {
+    this.authRejected = true;
+    const error: ApiError = { message, code };
+
+    this.logError(`Authentication rejected: ${message}`);
+    this.emit(TransportEvent.AUTH_ERROR, error);
+    this.config.onAuthError?.(error);
+  }
+
   /**
    * Log debug messages
    */
@@ -0,0 +1,195 @@
+/**
+ * Scriptable fake UI agent for the loopback transport
+ */
+
+import type { Mail } from '../types/mail.js';
+import { generateMessageId, getMailHeaders } from '../utils/rfc2822.js';
+import { getReplyReferences } from '../utils/threading.js';
+import { CORRELATION_ID_HEADER, DEFAULT_UI_AGENT_EMAIL } from './constants.js';
+
+/**
+ * Canned reply sent by the fake agent
+ */
+export interface FakeReply {
+  /**
+   * Defaults to "Re: <request subject>"
+   */
+  subject?: string;
+  /**
+   * Objects are serialized as JSON
+   */
+  body: string | object;
+  headers?: Record<string, string>;
+  /**
+   * Overrides the agent's latency and jitter for this reply
+   */
+  delay?: number;
+  /**
+   * Swallow the reply to simulate lost mail
+   */
+  drop?: boolean;
+}
+
+/**
+ * A reply, several replies, or a function producing them from the request
+ */
+export type FakeReplyScript =
+  | FakeReply
+  | FakeReply[]
+  | ((mail: Mail) => FakeReply | FakeReply[] | null);
+
+export interface FakeUiAgentConfig {
+  email?: string;
+  /**
+   * Base delay before each reply in ms
+   */
+  latency?: number;
+  /**
+   * Random extra delay in ms; lets replies overtake each other
+   */
+  jitter?: number;
+  /**
+   * Probability (0-1) that a reply is dropped
+   */
+  dropRate?: number;
+  random?: () => number;
+}
+
+/**
+ * Reply mail with the delay before it should be delivered
+ */
+export interface ScheduledReply {
+  mail: Mail;
+  delay: number;
+}
+
+interface ReplyRule {
+  match: string | RegExp;
+  script: FakeReplyScript;
+  remaining: number;
+}
+
+/**
+ * Stand-in for the backend UI agent that answers mail from scripted rules
+ */
+export class FakeUiAgent {
+  readonly email: string;
+  private rules: ReplyRule[] = [];
+  private fallback: FakeReplyScript | null = null;
+  private received: Mail[] = [];
+  private latency: number;
+  private jitter: number;
+  private dropRate: number;
+  private random: () => number;
+
+  constructor(config: FakeUiAgentConfig = {}) {
+    this.email = config.email ?? DEFAULT_UI_AGENT_EMAIL;
+    this.latency = config.latency ?? 0;
+    this.jitter = config.jitter ?? 0;
+    this.dropRate = config.dropRate ?? 0;
+    this.random = config.random ?? Math.random;
+  }
+
+  /**
+   * Reply to mail whose subject equals the string or matches the regex
+   * Rules are checked in registration order
+   */
+  reply(match: string | RegExp, script: FakeReplyScript, options: { times?: number } = {}): this {
+    this.rules.push({ match, script, remaining: options.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * Reply to mail that no rule matched
+   */
+  otherwise(script: FakeReplyScript): this {
+    this.fallback = script;
+    return this;
+  }
+
+  /**
+   * Remove all rules and recorded mail
+   */
+  reset(): void {
+    this.rules = [];
+    this.fallback = null;
+    this.received = [];
+  }
+
+  /**
+   * Get every mail the agent has received
+   */
+  getReceived(): readonly Mail[] {
+    return [...this.received];
+  }
+
+  /**
+   * Produce the replies for an inbound mail
+   */
+  respond(mail: Mail): ScheduledReply[] {
+    this.received.push(mail);
+
+    const rule = this.rules.find(r => r.remaining > 0 && this.matches(mail.subject, r.match));
+    let script = this.fallback;
+    if (rule) {
+      rule.remaining--;
+      script = rule.script;
+    }
+    if (!script) {
+      return [];
+    }
+
+    const produced = typeof script === 'function' ? script(mail) : script;
+    if (!produced) {
+      return [];
+    }
+
+    const replies = Array.isArray(produced) ? produced : [produced];
+    return replies
+      .filter(reply => !reply.drop && !(this.dropRate > 0 && this.random() < this.dropRate))
+      .map(reply => ({
+        mail: this.buildReply(mail, reply),
+        delay: reply.delay ?? this.latency + Math.floor(this.random() * this.jitter)
+      }));
+  }
+
+  /**
+   * Build the reply mail for a request
+   */
+  private buildReply(request: Mail, reply: FakeReply): Mail {
+    const mail: Mail = {
+      message_id: generateMessageId(),
+      from_address: this.email,
+      to_address: request.from_address,
+      subject: reply.subject ?? `Re: ${request.subject}`,
+      body: typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body, null, 2),
+      timestamp: new Date().toISOString(),
+      headers: { ...reply.headers }
+    };
+
+    if (request.message_id) {
+      mail.in_reply_to = request.message_id;
+      mail.references = getReplyReferences(request);
+    }
+
+    // Echo the correlation id the way the server does
+    const correlationId = getMailHeaders(request).get(CORRELATION_ID_HEADER);
+    if (correlationId && !getMailHeaders(mail).has(CORRELATION_ID_HEADER)) {
+      mail.headers = { ...mail.headers, [CORRELATION_ID_HEADER]: correlationId };
+    }
+
+    return mail;
+  }
+
+  /**
+   * Match a subject against a rule
+   */
+  private matches(subject: string, match: string | RegExp): boolean {
+    if (typeof match === 'string') {
+      return subject === match;
+    }
+    // A /g or /y regex resumes from lastIndex, which would skip every other mail
+    match.lastIndex = 0;
+    return match.test(subject);
+  }
+}
@@ -0,0 +1,163 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { HttpMailTransport } from './HttpMailTransport.js';
+import type { HttpMailTransportConfig } from './HttpMailTransport.js';
+import { TransportState } from './types.js';
+
+/**
+ * Poll until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('HttpMailTransport', () => {
+  let server: Server;
+  let port: number;
+  let mailStatus: number;
+  let requests: string[];
+  let streams: ServerResponse[];
+  let transport: HttpMailTransport;
+
+  beforeEach(async () => {
+    // Failed requests are logged through console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mailStatus = 200;
+    requests = [];
+    streams = [];
+    server = createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    port = typeof address === 'object' && address ? address.port : 0;
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Accept the identity handshake and keep event streams open;
+   * answer mail with mailStatus, or drop the connection when it is 0
+   */
+  function handle(request: IncomingMessage, response: ServerResponse): void {
+    requests.push(`${request.method} ${request.url?.replace(/\?.*/, '')}`);
+    if (request.url?.startsWith('/api/mail/events')) {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      response.write(':\n\n');
+      streams.push(response);
+      return;
+    }
+
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      const frame = JSON.parse(body);
+      if (frame.type !== 'mail') {
+        response.writeHead(200, { 'Content-Type': 'application/json' });
+        response.end(JSON.stringify({ type: 'identity_confirmed', email_address: 'user@mindswarm.ai' }));
+        return;
+      }
+      if (mailStatus === 0) {
+        request.socket.destroy();
+        return;
+      }
+      response.writeHead(mailStatus, { 'Content-Type': 'application/json' });
+      response.end(mailStatus < 300 ? JSON.stringify({ type: 'mail_sent', message_id: frame.mail.headers['Message-ID'], status: 'sent' }) : '');
+    });
+  }
+
+  function createTransport(config: Partial<HttpMailTransportConfig> = {}): HttpMailTransport {
+    transport = new HttpMailTransport({ apiBaseUrl: `http://127.0.0.1:${port}/api`, reconnect: false, ...config });
+    return transport;
+  }
+
+  describe('sendMail', () => {
+    beforeEach(async () => {
+      await createTransport().connect();
+    });
+
+    function send(): Promise<unknown> {
+      return transport.sendMailTo('agent@mindswarm.ai', 'Hello', 'body', { messageId: '<hello@test>' });
+    }
+
+    it('resolves with the delivery status from mail_sent', async () => {
+      await expect(send()).resolves.toMatchObject({ delivery: { message_id: '<hello@test>', status: 'sent' } });
+    });
+
+    it.each([400, 404, 422])('rejects mail permanently on HTTP %i', async status => {
+      mailStatus = status;
+
+      await expect(send()).rejects.toMatchObject({ name: 'MailDeliveryError', code: 'rejected', status: String(status) });
+    });
+
+    it.each([408, 429, 500, 503])('reports HTTP %i as retryable', async status => {
+      mailStatus = status;
+
+      await expect(send()).rejects.toMatchObject({ name: 'MailDeliveryError', code: 'disconnected', status: String(status) });
+    });
+
+    it('reports a network failure as retryable', async () => {
+      mailStatus = 0;
+
+      await expect(send()).rejects.toMatchObject({ name: 'MailDeliveryError', code: 'disconnected' });
+    });
+  });
+
+  describe('disconnect', () => {
+    it('stops a connect that is still resolving its auth token', async () => {
+      let releaseToken = (_token: string) => {};
+      createTransport({
+        authTokenProvider: () => new Promise<string>(resolve => {
+          releaseToken = resolve;
+        })
+      });
+
+      const connecting = transport.connect();
+      await transport.disconnect();
+      releaseToken('token');
+
+      await expect(connecting).rejects.toThrow('Connection cancelled by disconnect');
+      expect(requests).toEqual([]);
+      expect(transport.getState()).toBe(TransportState.DISCONNECTED);
+    });
+
+    it('stops a reconnect that is still resolving its auth token', async () => {
+      let tokenRequests = 0;
+      let releaseToken = (_token: string) => {};
+      createTransport({
+        reconnect: true,
+        reconnectStrategy: { nextDelay: () => 10 },
+        authTokenProvider: () => {
+          tokenRequests++;
+          return tokenRequests === 1
+            ? Promise.resolve('token')
+            : new Promise<string>(resolve => {
+              releaseToken = resolve;
+            });
+        }
+      });
+      await transport.connect();
+
+      streams[0].end();
+      await waitFor(() => tokenRequests === 2);
+      await transport.disconnect();
+      releaseToken('token');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(requests).toEqual(['POST /api/mail/send', 'GET /api/mail/events']);
+      expect(transport.getState()).toBe(TransportState.DISCONNECTED);
+    });
+  });
+});
@@ -0,0 +1,721 @@
+/**
+ * HTTP Mail Transport
+ *
+ * Fallback for networks that block WebSocket upgrades. Frames are POSTed to
+ * `${apiBaseUrl}/mail/send` and inbound frames arrive over Server-Sent Events
+ * from `${apiBaseUrl}/mail/events` or by long-polling `${apiBaseUrl}/mail/poll`.
+ * Every request carries an `X-Session-ID` so the server can route replies.
+ */
+
+import { BaseTransport } from './BaseTransport.js';
+import { MailDeliveryError } from './errors.js';
+import { MailResumeTracker } from './MailResumeTracker.js';
+import {
+  buildIdentityFrame,
+  buildMailFrame,
+  getFrameSequence,
+  getMailSentFailure,
+  normalizeInboundMail,
+  parseMailSentStatus
+} from './mailProtocol.js';
+import { MailTransportEvent, TransportEvent, TransportState } from './types.js';
+import type {
+  IdentityConfirmedEvent,
+  Mail,
+  ResyncRequiredEvent,
+  MailTransportEventMap,
+  MailTransport,
+  ReconnectFailedEvent,
+  SendMailOptions,
+  TransportConfig,
+  TransportMessage,
+  TransportResponse
+} from './types.js';
+import type { SentMail } from '../types/mail.js';
+import { buildReferences } from '../utils/threading.js';
+
+export type HttpReceiveMode = 'sse' | 'long-poll';
+
+export interface HttpMailTransportConfig extends TransportConfig {
+  apiBaseUrl: string;
+  receiveMode?: HttpReceiveMode;
+  headers?: Record<string, string>;
+  defaultFrom?: string;
+  /**
+   * How long the server may hold each long-poll request open in ms
+   */
+  pollTimeout?: number;
+}
+
+/**
+ * Result of POSTing a frame
+ */
+interface PostResult {
+  ok: boolean;
+  status: number;
+  frames: any[];
+}
+
+/**
+ * Mail transport over plain HTTP
+ */
+export class HttpMailTransport extends BaseTransport<MailTransportEventMap> implements MailTransport {
+  private mailHandlers = new Set<(mail: Mail) => void>();
+  private defaultFrom: string;
+  private userEmail?: string;
+  private uiAgentEmail?: string;
+  private sessionId: string | null = null;
+  private receiveController: AbortController | null = null;
+  private pollCursor: string | null = null;
+  private reconnectAttempts = 0;
+  /**
+   * Bumped by disconnect() so sessions still opening give up
+   */
+  private connectionGeneration = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private authToken: string | null = null;
+  private resume = new MailResumeTracker();
+
+  constructor(config: HttpMailTransportConfig) {
+    super({ receiveMode: 'sse', pollTimeout: 25000, ...config } as HttpMailTransportConfig);
+    this.defaultFrom = config.defaultFrom || 'user@mindswarm.ai';
+  }
+
+  /**
+   * Open a session and start receiving
+   */
+  async connect(): Promise<void> {
+    if (this.state === TransportState.CONNECTED || this.state === TransportState.CONNECTING) {
+      this.log('Already connected or connecting');
+      return;
+    }
+
+    this.clearReconnectTimer();
+    this.setState(TransportState.CONNECTING);
+    this.reconnectAttempts = 0;
+    this.authRejected = false;
+    const generation = this.connectionGeneration;
+
+    try {
+      await this.open();
+    } catch (error) {
+      // disconnect() already stopped receiving and settled the state
+      if (generation === this.connectionGeneration) {
+        this.stopReceiving();
+        this.setState(TransportState.ERROR);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stop receiving and end the session
+   */
+  async disconnect(): Promise<void> {
+    if (this.state === TransportState.DISCONNECTED) {
+      return;
+    }
+
+    this.setState(TransportState.DISCONNECTING);
+    this.clearReconnectTimer();
+    this.reconnectAttempts = 0;
+    this.connectionGeneration++;
+    this.stopReceiving();
+    this.sessionId = null;
+    this.setState(TransportState.DISCONNECTED);
+  }
+
+  /**
+   * POST a generic transport message
+   */
+  async send(message: TransportMessage): Promise<TransportResponse> {
+    if (!this.isConnected()) {
+      throw new Error('Transport not connected');
+    }
+
+    const messageId = message.id || this.generateId();
+    const result = await this.postFrame({
+      ...message,
+      id: messageId,
+      timestamp: new Date().toISOString()
+    });
+
+    const response: TransportResponse = {
+      id: messageId,
+      success: result.ok,
+      payload: result.frames.length === 1 ? result.frames[0] : result.frames
+    };
+    if (!result.ok) {
+      response.error = `HTTP ${result.status}`;
+    }
+    return response;
+  }
+
+  /**
+   * POST mail and resolve once the server accepts it
+   * A 2xx response without a mail_sent frame counts as accepted
+   */
+  async sendMail(mail: Mail): Promise<SentMail> {
+    if (!this.isConnected()) {
+      throw new Error('Transport not connected');
+    }
+
+    this.log(`sendMail called with subject: "${mail.subject}", to: ${mail.to_address}`);
+    const messageId = mail.message_id || this.generateId();
+
+    let result: PostResult;
+    try {
+      result = await this.postFrame(buildMailFrame(mail, messageId));
+    } catch (error) {
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new MailDeliveryError(
+        timedOut ? 'timeout' : 'disconnected',
+        messageId,
+        `Could not deliver "${mail.subject}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (!result.ok) {
+      if (isAuthStatus(result.status)) {
+        this.handleAuthRejected(`Mail send refused: HTTP ${result.status}`);
+      }
+      // Server errors, timeouts and rate limits may pass; queues retry 'disconnected'
+      const retryable = isRetryableStatus(result.status);
+      throw new MailDeliveryError(
+        retryable ? 'disconnected' : 'rejected',
+        messageId,
+        `${retryable ? 'Could not deliver' : 'Server rejected'} "${mail.subject}": HTTP ${result.status}`,
+        String(result.status)
+      );
+    }
+
+    const ack = result.frames.find(frame =>
+      frame.type === 'mail_sent' && (!frame.message_id || frame.message_id === messageId)
+    );
+    const status = ack ? parseMailSentStatus(ack) : { status: 'sent' };
+    const failure = ack ? getMailSentFailure(ack, status) : null;
+    if (failure) {
+      throw new MailDeliveryError(
+        'rejected',
+        messageId,
+        `Server rejected "${mail.subject}": ${failure}`,
+        status.status
+      );
+    }
+
+    const sent: SentMail = {
+      ...mail,
+      message_id: messageId,
+      delivery: { message_id: messageId, status: status.status }
+    };
+    if (status.message_id) {
+      sent.delivery.server_message_id = status.message_id;
+    }
+    this.emit(MailTransportEvent.MAIL_SENT, sent);
+    return sent;
+  }
+
+  /**
+   * Send mail with convenience parameters
+   */
+  async sendMailTo(to: string, subject: string, body: string, options?: SendMailOptions): Promise<SentMail> {
+    const mail: Mail = {
+      message_id: options?.messageId || this.generateId(),
+      from_address: this.defaultFrom,
+      to_address: to,
+      subject,
+      body,
+      timestamp: new Date().toISOString(),
+      headers: options?.headers || {}
+    };
+
+    if (options?.inReplyTo) {
+      mail.in_reply_to = options.inReplyTo;
+      mail.references = buildReferences(options.references, options.inReplyTo);
+    } else if (options?.references?.length) {
+      mail.references = [...options.references];
+    }
+
+    return this.sendMail(mail);
+  }
+
+  /**
+   * Register mail handler
+   */
+  onMail(handler: (mail: Mail) => void): void {
+    this.mailHandlers.add(handler);
+  }
+
+  /**
+   * Unregister mail handler
+   */
+  offMail(handler: (mail: Mail) => void): void {
+    this.mailHandlers.delete(handler);
+  }
+
+  /**
+   * Set user email
+   */
+  setUserEmail(email: string): void {
+    // Another user's resume point means nothing to the server
+    if (this.userEmail && this.userEmail !== email) {
+      this.resume.reset();
+    }
+    this.userEmail = email;
+    this.defaultFrom = email;
+  }
+
+  /**
+   * Get user email
+   */
+  getUserEmail(): string | undefined {
+    return this.userEmail;
+  }
+
+  /**
+   * Set UI agent email
+   */
+  setUiAgentEmail(email: string): void {
+    this.uiAgentEmail = email;
+  }
+
+  /**
+   * Get UI agent email
+   */
+  getUiAgentEmail(): string | undefined {
+    return this.uiAgentEmail;
+  }
+
+  /**
+   * Pick up a refreshed token, e.g. from AuthServiceBase's onTokenRefresh
+   * callback. Every request sends the current token, so no reconnect is needed
+   */
+  async reauthenticate(token?: string): Promise<void> {
+    this.authRejected = false;
+    this.authToken = token || await this.resolveAuthToken();
+  }
+
+  /**
+   * Start a session: identity handshake, then the receive channel
+   */
+  protected async open(): Promise<void> {
+    const config = this.config as HttpMailTransportConfig;
+    const generation = this.connectionGeneration;
+    this.sessionId = this.generateId();
+    this.pollCursor = null;
+    this.authToken = await this.resolveAuthToken();
+    this.assertNotDisconnected(generation);
+
+    // The handshake doubles as the connectivity check
+    const identity = await this.postFrame(buildIdentityFrame(this.userEmail, this.resume.getResumePoint()));
+    this.assertNotDisconnected(generation);
+    if (isAuthStatus(identity.status)) {
+      this.handleAuthRejected(`Identity handshake refused: HTTP ${identity.status}`);
+    }
+    if (!identity.ok) {
+      throw new Error(`Identity handshake failed: HTTP ${identity.status}`);
+    }
+    identity.frames.forEach(frame => this.handleFrame(frame));
+
+    const controller = new AbortController();
+    this.receiveController = controller;
+
+    if (config.receiveMode === 'long-poll') {
+      this.setState(TransportState.CONNECTED);
+      this.pollLoop(controller);
+    } else {
+      const response = await this.request(
+        this.url(`/mail/events?session=${encodeURIComponent(this.sessionId)}`),
+        { method: 'GET', headers: { 'Accept': 'text/event-stream' }, signal: controller.signal },
+        this.config.timeout || 30000
+      );
+      if (isAuthStatus(response.status)) {
+        this.handleAuthRejected(`Event stream refused: HTTP ${response.status}`);
+      }
+      if (!response.ok || !response.body) {
+        throw new Error(`Event stream failed: HTTP ${response.status}`);
+      }
+      this.setState(TransportState.CONNECTED);
+      this.readEventStream(response.body, controller);
+    }
+
+    this.reconnectAttempts = 0;
+    this.log('Connected');
+  }
+
+  /**
+   * Throw if disconnect() was called since a session started opening
+   * The event stream request needs no check: disconnect() aborts it
+   */
+  private assertNotDisconnected(generation: number): void {
+    if (generation !== this.connectionGeneration) {
+      throw new Error('Connection cancelled by disconnect');
+    }
+  }
+
+  /**
+   * Read Server-Sent Events until the stream ends
+   */
+  private async readEventStream(body: ReadableStream<Uint8Array>, controller: AbortController): Promise<void> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let data: string[] = [];
+
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        buffer += decoder.decode(value, { stream: true });
+        let newline: number;
+        while ((newline = buffer.indexOf('\n')) >= 0) {
+          const line = buffer.slice(0, newline).replace(/\r$/, '');
+          buffer = buffer.slice(newline + 1);
+
+          if (line === '') {
+            // Blank line dispatches the event
+            if (data.length > 0) {
+              this.handleFrameText(data.join('\n'));
+              data = [];
+            }
+          } else if (line.startsWith('data:')) {
+            data.push(line.slice(5).replace(/^ /, ''));
+          }
+          // Comments, event:, id: and retry: fields are not used
+        }
+      }
+      this.handleChannelLost(controller, new Error('Event stream closed'));
+    } catch (error) {
+      this.handleChannelLost(controller, error);
+    }
+  }
+
+  /**
+   * Long-poll for frames until stopped
+   */
+  private async pollLoop(controller: AbortController): Promise<void> {
+    const config = this.config as HttpMailTransportConfig;
+    const pollTimeout = config.pollTimeout ?? 25000;
+
+    while (!controller.signal.aborted) {
+      try {
+        let path = `/mail/poll?session=${encodeURIComponent(this.sessionId || '')}&timeout=${pollTimeout}`;
+        if (this.pollCursor) {
+          path += `&cursor=${encodeURIComponent(this.pollCursor)}`;
+        }
+
+        const response = await this.request(
+          this.url(path),
+          { method: 'GET', signal: controller.signal },
+          pollTimeout + (this.config.timeout || 30000)
+        );
+        if (isAuthStatus(response.status)) {
+          this.handleAuthRejected(`Long-poll refused: HTTP ${response.status}`);
+        }
+        if (!response.ok) {
+          throw new Error(`Long-poll failed: HTTP ${response.status}`);
+        }
+
+        // Either a bare array of frames or { frames, cursor }
+        const result = await response.json();
+        const frames: any[] = Array.isArray(result) ? result : result?.frames || [];
+        if (!Array.isArray(result) && result?.cursor) {
+          this.pollCursor = String(result.cursor);
+        }
+        frames.forEach(frame => this.handleFrame(frame));
+      } catch (error) {
+        this.handleChannelLost(controller, error);
+        return;
+      }
+    }
+  }
+
+  /**
+   * Parse and handle one frame of text
+   */
+  private handleFrameText(text: string): void {
+    try {
+      this.handleFrame(JSON.parse(text));
+    } catch (error) {
+      this.logError('Failed to parse message:', error);
+    }
+  }
+
+  /**
+   * Handle an inbound frame
+   */
+  private handleFrame(message: any): void {
+    if (!message || typeof message !== 'object') {
+      return;
+    }
+
+    this.log(`Received message type: ${message.type}`);
+
+    const mail = normalizeInboundMail(message);
+    if (mail) {
+      // Replayed after a resume, or pushed twice
+      if (!this.resume.accept(mail, getFrameSequence(message))) {
+        this.log(`Duplicate mail suppressed: ${mail.message_id}`);
+        return;
+      }
+      this.log(`Emitting mail from ${mail.from_address}: ${mail.subject}`);
+      this.emitMail(mail);
+    } else if (message.type === 'resync_required') {
+      const event: ResyncRequiredEvent = { resumePoint: this.resume.getResumePoint() };
+      if (message.reason) {
+        event.reason = String(message.reason);
+      }
+      this.logError(`Server cannot resume session: ${event.reason || 'no reason given'}`);
+      this.emit(MailTransportEvent.RESYNC_REQUIRED, event);
+    } else if (message.type === 'identity_confirmed') {
+      if (message.email_address) {
+        this.userEmail = message.email_address;
+        this.defaultFrom = message.email_address;
+        this.log(`Identity confirmed: ${this.userEmail}`);
+      }
+      if (message.ui_agent_email) {
+        this.uiAgentEmail = message.ui_agent_email;
+        this.log(`UI Agent: ${this.uiAgentEmail}`);
+      }
+      this.emitIdentityConfirmed();
+    } else if (message.type === 'mail_sent') {
+      this.log(`Mail sent confirmation: ${parseMailSentStatus(message).status}`);
+    } else {
+      this.emit(TransportEvent.MESSAGE, message);
+    }
+  }
+
+  /**
+   * Emit mail to all handlers
+   */
+  private emitMail(mail: Mail): void {
+    for (const handler of this.mailHandlers) {
+      try {
+        handler(mail);
+      } catch (error) {
+        this.logError('Mail handler error:', error);
+      }
+    }
+    this.emit(MailTransportEvent.MAIL, mail);
+  }
+
+  /**
+   * Emit the confirmed identity
+   */
+  private emitIdentityConfirmed(): void {
+    const identity: IdentityConfirmedEvent = {};
+    if (this.userEmail) {
+      identity.userEmail = this.userEmail;
+    }
+    if (this.uiAgentEmail) {
+      identity.uiAgentEmail = this.uiAgentEmail;
+    }
+    this.emit(MailTransportEvent.IDENTITY_CONFIRMED, identity);
+  }
+
+  /**
+   * React to the receive channel ending
+   */
+  private handleChannelLost(controller: AbortController, error: unknown): void {
+    // Stopped on purpose, or superseded by a newer session
+    if (controller.signal.aborted || controller !== this.receiveController) {
+      return;
+    }
+
+    this.logError('Receive channel lost:', error);
+    this.stopReceiving();
+    const wasConnected = this.state === TransportState.CONNECTED;
+    this.setState(TransportState.DISCONNECTED);
+
+    // Retrying with the same credentials would only be refused again
+    if (this.authRejected) {
+      this.setState(TransportState.ERROR);
+      return;
+    }
+
+    if (wasConnected && this.config.reconnect) {
+      this.scheduleReconnect();
+    }
+  }
+
+  /**
+   * Schedule reconnection attempt, optionally with a precomputed delay
+   */
+  private scheduleReconnect(delay?: number): void {
+    const attempt = this.reconnectAttempts + 1;
+    const nextDelay = delay ?? this.getReconnectStrategy().nextDelay(attempt);
+
+    if (nextDelay === null) {
+      this.logError('Max reconnection attempts reached');
+      this.emit(TransportEvent.RECONNECT_FAILED, { attempt: this.reconnectAttempts, nextDelay: null });
+      this.setState(TransportState.ERROR);
+      return;
+    }
+
+    this.reconnectAttempts = attempt;
+    this.log(`Scheduling reconnect attempt ${attempt} in ${nextDelay}ms`);
+    this.emit(TransportEvent.RECONNECTING, { attempt, delay: nextDelay });
+
+    this.reconnectTimer = setTimeout(async () => {
+      this.reconnectTimer = null;
+      this.setState(TransportState.CONNECTING);
+
+      try {
+        await this.open();
+      } catch (error) {
+        // connect() or disconnect() was called while this attempt was in flight
+        if (this.reconnectAttempts !== attempt) {
+          return;
+        }
+
+        this.logError('Reconnection failed:', error);
+        this.stopReceiving();
+
+        if (this.authRejected) {
+          this.setState(TransportState.ERROR);
+          return;
+        }
+
+        const event: ReconnectFailedEvent = {
+          attempt,
+          nextDelay: this.getReconnectStrategy().nextDelay(attempt + 1)
+        };
+        if (error instanceof Error) {
+          event.error = error;
+        }
+        this.emit(TransportEvent.RECONNECT_FAILED, event);
+
+        if (event.nextDelay === null) {
+          this.logError('Max reconnection attempts reached');
+          this.setState(TransportState.ERROR);
+          return;
+        }
+
+        this.setState(TransportState.DISCONNECTED);
+        this.scheduleReconnect(event.nextDelay);
+      }
+    }, nextDelay);
+  }
+
+  /**
+   * Cancel a scheduled reconnection attempt
+   */
+  private clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Abort the receive channel
+   */
+  private stopReceiving(): void {
+    if (this.receiveController) {
+      this.receiveController.abort();
+      this.receiveController = null;
+    }
+  }
+
+  /**
+   * POST a frame and collect any frames in the response
+   */
+  private async postFrame(frame: Record<string, any>): Promise<PostResult> {
+    this.log(`Posting message: ${JSON.stringify(frame)}`);
+
+    const response = await this.request(
+      this.url('/mail/send'),
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(frame)
+      },
+      this.config.timeout || 30000
+    );
+
+    let frames: any[] = [];
+    const text = await response.text();
+    if (text) {
+      try {
+        const parsed = JSON.parse(text);
+        frames = Array.isArray(parsed) ? parsed : [parsed];
+      } catch {
+        this.log(`Non-JSON response body: ${text.substring(0, 200)}`);
+      }
+    }
+
+    return { ok: response.ok, status: response.status, frames };
+  }
+
+  /**
+   * fetch with session headers and a timeout on receiving the response
+   */
+  private async request(url: string, init: RequestInit, timeout: number): Promise<Response> {
+    const config = this.config as HttpMailTransportConfig;
+    const controller = new AbortController();
+    let timedOut = false;
+
+    // Caller's signal keeps working after the response arrives (event streams)
+    if (init.signal) {
+      if (init.signal.aborted) {
+        controller.abort();
+      } else {
+        init.signal.addEventListener('abort', () => controller.abort(), { once: true });
+      }
+    }
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeout);
+
+    const headers: Record<string, string> = {
+      ...config.headers,
+      ...(init.headers as Record<string, string> | undefined)
+    };
+    if (this.sessionId) {
+      headers['X-Session-ID'] = this.sessionId;
+    }
+    if (this.authToken) {
+      headers['Authorization'] = `Bearer ${this.authToken}`;
+    }
+
+    try {
+      return await fetch(url, { ...init, headers, signal: controller.signal });
+    } catch (error) {
+      if (timedOut) {
+        const timeoutError = new Error(`Request to ${url} timed out`);
+        timeoutError.name = 'TimeoutError';
+        throw timeoutError;
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Resolve a path against apiBaseUrl
+   */
+  private url(path: string): string {
+    const config = this.config as HttpMailTransportConfig;
+    return `${config.apiBaseUrl.replace(/\/+$/, '')}${path}`;
+  }
+}
+
+/**
+ * Whether an HTTP status means the credentials were refused
+ */
+function isAuthStatus(status: number): boolean {
+  return status === 401 || status === 403;
+}
+
+/**
+ * Whether a failed request may succeed if sent again unchanged
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { FakeUiAgent } from './FakeUiAgent.js';
+import { LoopbackMailTransport } from './LoopbackMailTransport.js';
+import { MailTransportEvent } from './types.js';
+import type { IdentityConfirmedEvent, Mail } from './types.js';
+
+describe('LoopbackMailTransport', () => {
+  let agent: FakeUiAgent;
+  let transport: LoopbackMailTransport;
+  let received: Mail[];
+
+  beforeEach(() => {
+    agent = new FakeUiAgent();
+    transport = new LoopbackMailTransport({ agent, userEmail: 'alice@mindswarm.ai' });
+    received = [];
+    transport.onMail(mail => received.push(mail));
+  });
+
+  afterEach(async () => {
+    await transport.disconnect();
+  });
+
+  it('confirms the identity on connect', async () => {
+    const identities: IdentityConfirmedEvent[] = [];
+    transport.on(MailTransportEvent.IDENTITY_CONFIRMED, identity => identities.push(identity));
+
+    await transport.connect();
+
+    expect(identities).toEqual([{ userEmail: 'alice@mindswarm.ai', uiAgentEmail: agent.email }]);
+  });
+
+  it('threads scripted replies to the request', async () => {
+    agent.reply('List Projects', { subject: 'Project List Response', body: { projects: [] } });
+    await transport.connect();
+
+    const sent = await transport.sendMailTo(agent.email, 'List Projects', '{}');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(sent.delivery.status).toBe('sent');
+    expect(received).toHaveLength(1);
+    expect(received[0]).toMatchObject({
+      subject: 'Project List Response',
+      to_address: 'alice@mindswarm.ai',
+      in_reply_to: sent.message_id
+    });
+    expect(JSON.parse(received[0].body)).toEqual({ projects: [] });
+  });
+
+  it('matches every identical mail against a global regex rule', async () => {
+    agent.reply(/^Get Project/g, { body: '{}' });
+    await transport.connect();
+
+    for (let i = 0; i < 3; i++) {
+      await transport.sendMailTo(agent.email, 'Get Project: p1', '{}');
+    }
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(received).toHaveLength(3);
+  });
+
+  it('stops replying after a rule is used up and falls back to otherwise()', async () => {
+    agent.reply('Ping', { subject: 'Pong', body: '' }, { times: 1 }).otherwise({ subject: 'Unknown', body: '' });
+    await transport.connect();
+
+    await transport.sendMailTo(agent.email, 'Ping', '');
+    await transport.sendMailTo(agent.email, 'Ping', '');
+    await new Promise(resolve => setTimeout(resolve, 10));
+
+    expect(received.map(mail => mail.subject)).toEqual(['Pong', 'Unknown']);
+  });
+
+  it('discards replies still in flight when disconnected', async () => {
+    agent.reply('Slow', { body: '', delay: 20 });
+    await transport.connect();
+
+    await transport.sendMailTo(agent.email, 'Slow', '');
+    await transport.disconnect();
+    await new Promise(resolve => setTimeout(resolve, 40));
+
+    expect(received).toHaveLength(0);
+    await expect(transport.sendMailTo(agent.email, 'Slow', '')).rejects.toThrow('Transport not connected');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Loopback Mail Transport
+ *
+ * In-memory MailTransport for tests and offline demos. Mail addressed to
+ * the fake UI agent is answered from its script; nothing touches a socket.
+ */
+
+import { BaseTransport } from './BaseTransport.js';
+import { FakeUiAgent } from './FakeUiAgent.js';
+import { USER_EMAIL_DOMAIN } from './constants.js';
+import { MailTransportEvent, TransportState } from './types.js';
+import type {
+  IdentityConfirmedEvent,
+  Mail,
+  MailTransportEventMap,
+  MailTransport,
+  SendMailOptions,
+  TransportConfig,
+  TransportMessage,
+  TransportResponse
+} from './types.js';
+import type { SentMail } from '../types/mail.js';
+import { isSameAddress } from '../utils/address.js';
+import { buildReferences } from '../utils/threading.js';
+
+export interface LoopbackMailTransportConfig extends TransportConfig {
+  userEmail?: string;
+  agent?: FakeUiAgent;
+}
+
+/**
+ * MailTransport that delivers mail in memory
+ */
+export class LoopbackMailTransport extends BaseTransport<MailTransportEventMap> implements MailTransport {
+  readonly agent: FakeUiAgent;
+  private mailHandlers = new Set<(mail: Mail) => void>();
+  private sentMail: Mail[] = [];
+  private userEmail: string;
+  private uiAgentEmail?: string;
+  private timers = new Set<ReturnType<typeof setTimeout>>();
+
+  constructor(config: LoopbackMailTransportConfig = {}) {
+    super(config);
+    this.agent = config.agent ?? new FakeUiAgent();
+    this.userEmail = config.userEmail ?? `user@${USER_EMAIL_DOMAIN}`;
+  }
+
+  /**
+   * Connect and confirm the identity immediately
+   */
+  async connect(): Promise<void> {
+    if (this.state === TransportState.CONNECTED) {
+      return;
+    }
+    this.uiAgentEmail = this.uiAgentEmail ?? this.agent.email;
+    this.setState(TransportState.CONNECTED);
+
+    const identity: IdentityConfirmedEvent = { userEmail: this.userEmail, uiAgentEmail: this.uiAgentEmail };
+    this.emit(MailTransportEvent.IDENTITY_CONFIRMED, identity);
+  }
+
+  /**
+   * Disconnect and discard replies that are still in flight
+   */
+  async disconnect(): Promise<void> {
+    for (const timer of this.timers) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.setState(TransportState.DISCONNECTED);
+  }
+
+  /**
+   * Echo generic transport messages back as successful responses
+   */
+  async send(message: TransportMessage): Promise<TransportResponse> {
+    this.assertConnected();
+    return { id: message.id, success: true, payload: message.payload };
+  }
+
+  /**
+   * Record the mail and schedule the fake agent's replies
+   */
+  async sendMail(mail: Mail): Promise<SentMail> {
+    this.assertConnected();
+
+    const sent: Mail = { ...mail, message_id: mail.message_id || this.generateId() };
+    this.sentMail.push(sent);
+    this.log(`Loopback mail sent: ${sent.subject} to ${sent.to_address}`);
+
+    if (isSameAddress(sent.to_address, this.agent.email)) {
+      for (const reply of this.agent.respond(sent)) {
+        this.schedule(reply.mail, reply.delay);
+      }
+    }
+
+    return {
+      ...sent,
+      delivery: { message_id: sent.message_id!, status: 'sent' }
+    };
+  }
+
+  /**
+   * Send mail with convenience parameters
+   */
+  async sendMailTo(to: string, subject: string, body: string, options?: SendMailOptions): Promise<SentMail> {
+    const mail: Mail = {
+      message_id: options?.messageId || this.generateId(),
+      from_address: this.userEmail,
+      to_address: to,
+      subject,
+      body,
+      timestamp: new Date().toISOString(),
+      headers: options?.headers || {}
+    };
+
+    if (options?.inReplyTo) {
+      mail.in_reply_to = options.inReplyTo;
+      mail.references = buildReferences(options.references, options.inReplyTo);
+    } else if (options?.references?.length) {
+      mail.references = [...options.references];
+    }
+
+    return this.sendMail(mail);
+  }
+
+  /**
+   * Push inbound mail to handlers, e.g. unsolicited agent updates
+   */
+  deliver(mail: Mail, delay = 0): void {
+    this.schedule(mail, delay);
+  }
+
+  /**
+   * Register mail handler
+   */
+  onMail(handler: (mail: Mail) => void): void {
+    this.mailHandlers.add(handler);
+  }
+
+  /**
+   * Unregister mail handler
+   */
+  offMail(handler: (mail: Mail) => void): void {
+    this.mailHandlers.delete(handler);
+  }
+
+  /**
+   * Get every mail sent through the transport
+   */
+  getSentMail(): readonly Mail[] {
+    return [...this.sentMail];
+  }
+
+  /**
+   * Forget recorded sent mail
+   */
+  clearSentMail(): void {
+    this.sentMail = [];
+  }
+
+  /**
+   * Get user email
+   */
+  getUserEmail(): string | undefined {
+    return this.userEmail;
+  }
+
+  /**
+   * Set user email
+   */
+  setUserEmail(email: string): void {
+    this.userEmail = email;
+  }
+
+  /**
+   * Get UI agent email
+   */
+  getUiAgentEmail(): string | undefined {
+    return this.uiAgentEmail;
+  }
+
+  /**
+   * Set UI agent email
+   */
+  setUiAgentEmail(email: string): void {
+    this.uiAgentEmail = email;
+  }
+
+  /**
+   * Deliver mail to handlers after a delay, unless disconnected by then
+   */
+  private schedule(mail: Mail, delay: number): void {
+    const timer = setTimeout(() => {
+      this.timers.delete(timer);
+      if (this.isConnected()) {
+        this.emitMail(mail);
+      }
+    }, delay);
+    this.timers.add(timer);
+  }
+
+  /**
+   * Emit mail to all handlers
+   */
+  private emitMail(mail: Mail): void {
+    for (const handler of this.mailHandlers) {
+      try {
+        handler(mail);
+      } catch (error) {
+        this.logError('Mail handler error:', error);
+      }
+    }
+    this.emit(MailTransportEvent.MAIL, mail);
+  }
+
+  /**
+   * Throw unless connected
+   */
+  private assertConnected(): void {
+    if (!this.isConnected()) {
+      throw new Error('Transport not connected');
+    }
+  }
+}
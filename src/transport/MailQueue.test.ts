@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MailPriority, MailQueue, MailQueueEvent, defaultDedupeKey } from './MailQueue.js';
+import { InMemoryMailQueueStorage } from './MailQueueStorage.js';
+
+describe('MailQueue', () => {
+  let queue: MailQueue;
+
+  afterEach(() => {
+    queue.destroy();
+    vi.useRealTimers();
+  });
+
+  describe('deduplication', () => {
+    it('enqueues synchronously and rejects duplicates within the window', () => {
+      queue = new MailQueue();
+
+      const id = queue.enqueue('agent@mindswarm.ai', 'List Projects', 'body');
+      expect(typeof id).toBe('string');
+      expect(queue.enqueue('agent@mindswarm.ai', 'List Projects', 'body')).toBeNull();
+      expect(queue.enqueueWithId('other', 'agent@mindswarm.ai', 'List Projects', 'body')).toBe(false);
+      expect(queue.size()).toBe(1);
+    });
+
+    it('tells long bodies with the same opening apart', () => {
+      queue = new MailQueue();
+      const opening = 'x'.repeat(500);
+
+      expect(queue.enqueue('agent@mindswarm.ai', 'Prompt', `${opening} first`)).not.toBeNull();
+      expect(queue.enqueue('agent@mindswarm.ai', 'Prompt', `${opening} second`)).not.toBeNull();
+    });
+
+    it('dedupes on a configured key and lets a message bypass it', () => {
+      queue = new MailQueue({
+        dedupeKey: mail => mail.headers?.['Idempotency-Key'] ?? defaultDedupeKey(mail)
+      });
+      const rejected: string[] = [];
+      queue.on(MailQueueEvent.DUPLICATE_REJECTED, ({ subject }) => rejected.push(subject));
+
+      expect(queue.enqueue('a@mindswarm.ai', 'One', 'body', { 'Idempotency-Key': 'k1' })).not.toBeNull();
+      expect(queue.enqueue('b@mindswarm.ai', 'Two', 'other', { 'Idempotency-Key': 'k1' })).toBeNull();
+      expect(queue.enqueue('a@mindswarm.ai', 'One', 'body', { 'Idempotency-Key': 'k1' }, { skipDedupe: true }))
+        .not.toBeNull();
+      expect(rejected).toEqual(['Two']);
+    });
+  });
+
+  describe('async enqueue', () => {
+    it('dedupes like enqueue and keeps call order', async () => {
+      queue = new MailQueue();
+
+      const ids = await Promise.all([
+        queue.enqueueAsync('agent@mindswarm.ai', 'One', 'body'),
+        queue.enqueueAsync('agent@mindswarm.ai', 'Two', 'x'.repeat(100000)),
+        queue.enqueueAsync('agent@mindswarm.ai', 'Three', 'body')
+      ]);
+
+      expect(queue.getAll().map(mail => mail.id)).toEqual(ids);
+      expect(queue.enqueue('agent@mindswarm.ai', 'One', 'body')).toBeNull();
+      await expect(queue.enqueueWithIdAsync('other', 'agent@mindswarm.ai', 'Three', 'body')).resolves.toBe(false);
+    });
+  });
+
+  describe('in-flight mail', () => {
+    it('keeps dequeued mail stored until it is completed', async () => {
+      const storage = new InMemoryMailQueueStorage();
+      queue = new MailQueue({ storage });
+      const id = queue.enqueue('agent@mindswarm.ai', 'List Projects', 'body')!;
+
+      queue.dequeue();
+      await queue.flush();
+      expect((await storage.loadQueue())?.inFlight?.map(mail => mail.id)).toEqual([id]);
+      expect(queue.getStats()).toMatchObject({ pending: 0, inFlight: 1 });
+
+      expect(queue.complete(id)).toBe(true);
+      await queue.flush();
+      expect((await storage.loadQueue())?.inFlight).toEqual([]);
+      expect(queue.complete(id)).toBe(false);
+    });
+
+    it('queues mail that was in flight at shutdown again', async () => {
+      const storage = new InMemoryMailQueueStorage();
+      const first = new MailQueue({ storage });
+      const id = first.enqueue('agent@mindswarm.ai', 'List Projects', 'body')!;
+      first.dequeue();
+      await first.flush();
+      first.destroy();
+
+      queue = new MailQueue({ storage });
+      await queue.ready();
+
+      expect(queue.getAll().map(mail => mail.id)).toEqual([id]);
+      expect(queue.dequeue()?.attempts).toBe(2);
+    });
+
+    it('forgets in-flight mail that is requeued, failed or removed', () => {
+      queue = new MailQueue();
+      queue.enqueue('agent@mindswarm.ai', 'One', 'body');
+      queue.enqueue('agent@mindswarm.ai', 'Two', 'body');
+      queue.enqueue('agent@mindswarm.ai', 'Three', 'body');
+
+      queue.requeue(queue.dequeue()!, new Error('timeout'));
+      expect(queue.getStats().inFlight).toBe(0);
+      queue.fail(queue.dequeue()!, new Error('rejected'));
+      expect(queue.getStats().inFlight).toBe(0);
+      expect(queue.remove(queue.dequeue()!.id)).toBe(true);
+      expect(queue.getStats().inFlight).toBe(0);
+    });
+  });
+
+  describe('scheduling', () => {
+    it('dequeues higher priorities first and keeps FIFO within a priority', () => {
+      queue = new MailQueue();
+      queue.enqueue('agent@mindswarm.ai', 'Refresh', 'body', undefined, { priority: MailPriority.BACKGROUND });
+      queue.enqueue('agent@mindswarm.ai', 'First', 'body');
+      queue.enqueue('agent@mindswarm.ai', 'Delete', 'body', undefined, { priority: MailPriority.INTERACTIVE });
+      queue.enqueue('agent@mindswarm.ai', 'Second', 'body');
+
+      const order = [1, 2, 3, 4].map(() => queue.dequeue()?.subject);
+
+      expect(order).toEqual(['Delete', 'First', 'Second', 'Refresh']);
+    });
+
+    it('drops mail past its ttl into the dead letters instead of sending it', () => {
+      vi.useFakeTimers();
+      queue = new MailQueue();
+      const expired: string[] = [];
+      queue.on(MailQueueEvent.EXPIRED, ({ mail }) => expired.push(mail.subject));
+      queue.enqueue('agent@mindswarm.ai', 'Stale', 'body', undefined, { ttl: 1000 });
+      queue.enqueue('agent@mindswarm.ai', 'Fresh', 'body');
+
+      vi.advanceTimersByTime(1000);
+
+      expect(queue.dequeue()?.subject).toBe('Fresh');
+      expect(expired).toEqual(['Stale']);
+      expect(queue.getDeadLetters()[0]).toMatchObject({ reason: 'expired' });
+      expect(queue.getStats()).toMatchObject({ expired: 1, dropped: 1 });
+    });
+
+    it('holds mail back until notBefore and reports when it is due', () => {
+      vi.useFakeTimers();
+      queue = new MailQueue();
+      const notBefore = Date.now() + 500;
+      queue.enqueue('agent@mindswarm.ai', 'Later', 'body', undefined, { notBefore });
+
+      expect(queue.dequeue()).toBeNull();
+      expect(queue.nextDueAt()).toBe(notBefore);
+
+      vi.advanceTimersByTime(500);
+
+      expect(queue.nextDueAt()).toBe(0);
+      expect(queue.dequeue()?.subject).toBe('Later');
+      expect(queue.nextDueAt()).toBeNull();
+    });
+
+    it('waits out the retry delay of requeued mail', () => {
+      vi.useFakeTimers();
+      queue = new MailQueue();
+      queue.enqueue('agent@mindswarm.ai', 'Retry', 'body');
+
+      queue.requeue(queue.dequeue()!, new Error('timeout'), 200);
+      expect(queue.dequeue()).toBeNull();
+
+      vi.advanceTimersByTime(200);
+      const mail = queue.dequeue();
+
+      expect(mail?.attempts).toBe(2);
+      expect(mail?.history).toMatchObject([{ attempt: 1, error: 'timeout' }, { attempt: 2 }]);
+    });
+  });
+
+  describe('dead letters', () => {
+    it('keeps mail that ran out of attempts or was rejected, with the reason and last error', () => {
+      queue = new MailQueue({ maxAttempts: 2 });
+      const dropped: string[] = [];
+      queue.on(MailQueueEvent.DROPPED, ({ mail, reason }) => dropped.push(`${mail.subject}: ${reason}`));
+      queue.enqueue('agent@mindswarm.ai', 'Flaky', 'body');
+      queue.enqueue('agent@mindswarm.ai', 'Invalid', 'body');
+
+      expect(queue.requeue(queue.dequeue()!, new Error('timeout'))).toBe(true);
+      expect(queue.requeue(queue.dequeue()!, new Error('timeout again'))).toBe(false);
+      queue.fail(queue.dequeue()!, new Error('unknown project'));
+
+      expect(dropped).toEqual(['Flaky: max_attempts', 'Invalid: rejected']);
+      expect(queue.getDeadLetters().map(letter => letter.lastError)).toEqual(['timeout again', 'unknown project']);
+      expect(queue.isEmpty()).toBe(true);
+    });
+
+    it('discards the oldest dead letters beyond maxDeadLetters', () => {
+      queue = new MailQueue({ maxDeadLetters: 2 });
+      ['One', 'Two', 'Three'].forEach(subject => {
+        queue.enqueue('agent@mindswarm.ai', subject, 'body');
+        queue.fail(queue.dequeue()!);
+      });
+
+      expect(queue.getDeadLetters().map(letter => letter.mail.subject)).toEqual(['Two', 'Three']);
+    });
+
+    it('replays dead letters with a fresh attempt budget and counts them', () => {
+      vi.useFakeTimers();
+      queue = new MailQueue({ maxAttempts: 1 });
+      const enqueued: string[] = [];
+      queue.enqueue('agent@mindswarm.ai', 'Report', 'body', undefined, { ttl: 1000 });
+      queue.requeue(queue.dequeue()!, new Error('timeout'));
+      queue.on(MailQueueEvent.ENQUEUED, mail => enqueued.push(mail.subject));
+      vi.advanceTimersByTime(1000);
+
+      expect(queue.replayDeadLetters()).toBe(1);
+
+      const mail = queue.dequeue();
+      expect(mail).toMatchObject({ subject: 'Report', attempts: 1 });
+      expect(mail?.expiresAt).toBeUndefined();
+      expect(enqueued).toEqual(['Report']);
+      expect(queue.getStats()).toMatchObject({ enqueued: 1, replayed: 1, deadLetters: 0 });
+    });
+
+    it('replays or purges only the given IDs', () => {
+      queue = new MailQueue();
+      const ids = ['One', 'Two', 'Three'].map(subject => {
+        const id = queue.enqueue('agent@mindswarm.ai', subject, 'body')!;
+        queue.fail(queue.dequeue()!);
+        return id;
+      });
+
+      expect(queue.replayDeadLetters([ids[0]])).toBe(1);
+      expect(queue.purgeDeadLetters([ids[1], 'unknown'])).toBe(1);
+
+      expect(queue.getAll().map(mail => mail.id)).toEqual([ids[0]]);
+      expect(queue.getDeadLetters().map(letter => letter.mail.id)).toEqual([ids[2]]);
+      expect(queue.purgeDeadLetters()).toBe(1);
+    });
+  });
+});
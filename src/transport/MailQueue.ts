@@ -4,11 +4,15 @@
  * This class ensures:
  * 1. No duplicate messages are sent within a time window
  * 2. Messages are queued if connection is down
- * 3. Clear debugging information is available
+ * 3. Every state change is emitted as a typed event for diagnostics
+ * 4. Queued messages survive restarts when a storage backend is configured
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { EventEmitter } from '../utils/EventEmitter.js';
+import { sha256Hex, sha256HexAsync } from '../utils/hash.js';
 import { MESSAGE_DEDUP_WINDOW_MS } from './constants.js';
+import type { MailQueueSnapshot, MailQueueStorage } from './MailQueueStorage.js';
 
 export interface QueuedMail {
   id: string;
@@ -19,33 +23,260 @@ export interface QueuedMail {
   attempts: number;
   hash: string;
   headers?: Record<string, string> | undefined;
+  /**
+   * Higher priorities are dequeued first; FIFO within a priority
+   */
+  priority: number;
+  /**
+   * Epoch ms after which the message is dropped instead of sent
+   */
+  expiresAt?: number;
+  /**
+   * Epoch ms before which the message is held back
+   */
+  notBefore?: number;
+  /**
+   * Epoch ms before which a failed message isn't retried
+   */
+  nextAttemptAt?: number;
+  /**
+   * One entry per dequeue, oldest first
+   */
+  history?: MailAttempt[];
+}
+
+/**
+ * A single send attempt for a queued message
+ */
+export interface MailAttempt {
+  attempt: number;
+  startedAt: number;
+  failedAt?: number;
+  error?: string;
+}
+
+/**
+ * Common priority lanes; any number works
+ */
+export enum MailPriority {
+  BACKGROUND = -10,
+  NORMAL = 0,
+  INTERACTIVE = 10
+}
+
+export interface EnqueueOptions {
+  priority?: number;
+  /**
+   * Drop the message if it hasn't been sent within this many ms
+   */
+  ttl?: number;
+  /**
+   * Absolute expiry; wins over ttl
+   */
+  expiresAt?: number;
+  notBefore?: number;
+  /**
+   * Queue even if an identical message was just queued, e.g. a deliberate resend
+   */
+  skipDedupe?: boolean;
+}
+
+/**
+ * The parts of a message a dedupe key can be derived from
+ */
+export interface DedupeCandidate {
+  to: string;
+  subject: string;
+  body: string;
+  headers?: Record<string, string> | undefined;
+}
+
+/**
+ * Derive the identity of a message; messages with equal keys are duplicates
+ */
+export type DedupeKeyFn = (mail: DedupeCandidate) => string;
+
+/**
+ * Recipient, subject and the full body
+ */
+export function defaultDedupeKey(mail: DedupeCandidate): string {
+  return JSON.stringify([mail.to, mail.subject, mail.body]);
+}
+
+export type MailDropReason = 'expired' | 'max_attempts' | 'rejected';
+
+/**
+ * A message the queue gave up on, kept for inspection and replay
+ * The attempt history and enqueue time live on the mail itself
+ */
+export interface DeadLetter {
+  mail: QueuedMail;
+  reason: MailDropReason;
+  lastError?: string;
+  droppedAt: number;
+}
+
+export enum MailQueueEvent {
+  ENQUEUED = 'enqueued',
+  DUPLICATE_REJECTED = 'duplicate_rejected',
+  DEQUEUED = 'dequeued',
+  COMPLETED = 'completed',
+  REQUEUED = 'requeued',
+  REMOVED = 'removed',
+  /**
+   * Fires for every message moved to the dead letters, expired ones included
+   */
+  DROPPED = 'dropped',
+  /**
+   * Fires before DROPPED for messages past their expiry
+   */
+  EXPIRED = 'expired',
+  CLEARED = 'cleared',
+  DEAD_LETTERS_PURGED = 'dead_letters_purged',
+  REHYDRATED = 'rehydrated',
+  STORAGE_ERROR = 'storage_error'
+}
+
+export interface DuplicateRejectedEvent {
+  to: string;
+  subject: string;
+  hash: string;
+  /**
+   * When the matching message was queued
+   */
+  firstSeenAt: number;
+}
+
+export interface RequeuedEvent {
+  mail: QueuedMail;
+  error?: string;
+  retryDelay?: number;
+}
+
+export interface MailQueueStorageErrorEvent {
+  operation: 'load' | 'save';
+  error: unknown;
+}
+
+export type MailQueueEventMap = {
+  [MailQueueEvent.ENQUEUED]: [mail: QueuedMail];
+  [MailQueueEvent.DUPLICATE_REJECTED]: [event: DuplicateRejectedEvent];
+  [MailQueueEvent.DEQUEUED]: [mail: QueuedMail];
+  [MailQueueEvent.COMPLETED]: [mail: QueuedMail];
+  [MailQueueEvent.REQUEUED]: [event: RequeuedEvent];
+  [MailQueueEvent.REMOVED]: [mail: QueuedMail];
+  [MailQueueEvent.DROPPED]: [deadLetter: DeadLetter];
+  [MailQueueEvent.EXPIRED]: [deadLetter: DeadLetter];
+  [MailQueueEvent.CLEARED]: [event: { count: number }];
+  [MailQueueEvent.DEAD_LETTERS_PURGED]: [event: { count: number }];
+  [MailQueueEvent.REHYDRATED]: [event: { count: number }];
+  [MailQueueEvent.STORAGE_ERROR]: [event: MailQueueStorageErrorEvent];
+};
+
+/**
+ * Counters since the queue was created, plus its current shape
+ */
+export interface MailQueueStats {
+  pending: number;
+  /**
+   * Dequeued messages not yet completed, requeued or failed
+   */
+  inFlight: number;
+  deadLetters: number;
+  enqueued: number;
+  dequeued: number;
+  requeued: number;
+  /**
+   * Dead letters moved back into the queue; not counted in enqueued
+   */
+  replayed: number;
+  dropped: number;
+  expired: number;
+  duplicatesRejected: number;
+  /**
+   * Age of the oldest queued message in ms, null when empty
+   */
+  oldestAgeMs: number | null;
+  /**
+   * Share of enqueue calls rejected as duplicates (0-1)
+   */
+  dedupeHitRate: number;
 }
 
 export interface MailQueueConfig {
   dedupeWindowMs?: number;
+  /**
+   * Defaults to defaultDedupeKey; keys are stored as SHA-256 digests
+   */
+  dedupeKey?: DedupeKeyFn;
   maxAttempts?: number;
-  maxDebugLog?: number;
-  enableConsoleLogging?: boolean;
+  /**
+   * How many dead letters to keep; the oldest are discarded first
+   */
+  maxDeadLetters?: number;
+  /**
+   * Persist the queue; it is rehydrated on construction
+   */
+  storage?: MailQueueStorage;
 }
 
-export class MailQueue {
+export class MailQueue extends EventEmitter<MailQueueEventMap> {
   private queue: QueuedMail[] = [];
+  private inFlight = new Map<string, QueuedMail>();
   private recentHashes = new Map<string, number>();
   private dedupeWindowMs: number;
+  private dedupeKey: DedupeKeyFn;
   private maxAttempts: number;
-  private debugLog: string[] = [];
-  private maxDebugLog: number;
-  private enableConsoleLogging: boolean;
+  private deadLetters: DeadLetter[] = [];
+  private maxDeadLetters: number;
+  private stats = {
+    enqueued: 0,
+    dequeued: 0,
+    requeued: 0,
+    replayed: 0,
+    dropped: 0,
+    expired: 0,
+    duplicatesRejected: 0
+  };
   private cleanupInterval?: ReturnType<typeof setInterval> | undefined;
+  private storage: MailQueueStorage | undefined;
+  private readyPromise: Promise<void>;
+  private persistChain: Promise<void>;
+  private hashChain: Promise<unknown> = Promise.resolve();
 
   constructor(config: MailQueueConfig = {}) {
+    super();
     this.dedupeWindowMs = config.dedupeWindowMs ?? MESSAGE_DEDUP_WINDOW_MS;
+    this.dedupeKey = config.dedupeKey ?? defaultDedupeKey;
     this.maxAttempts = config.maxAttempts ?? 3;
-    this.maxDebugLog = config.maxDebugLog ?? 100;
-    this.enableConsoleLogging = config.enableConsoleLogging ?? true;
+    this.maxDeadLetters = config.maxDeadLetters ?? 100;
+    this.storage = config.storage;
+
+    // Writes wait for rehydration so they never overwrite stored mail
+    this.readyPromise = this.rehydrate();
+    this.persistChain = this.readyPromise;
+
+    // Clean up old hashes and expired mail periodically
+    this.cleanupInterval = setInterval(() => {
+      this.cleanupHashes();
+      this.expireStale();
+    }, 5000);
+    // Housekeeping only; it mustn't keep a Node.js process alive
+    this.cleanupInterval.unref?.();
+  }
+
+  /**
+   * Resolves once stored messages have been loaded
+   */
+  ready(): Promise<void> {
+    return this.readyPromise;
+  }
 
-    // Clean up old hashes periodically
-    this.cleanupInterval = setInterval(() => this.cleanupHashes(), 5000);
+  /**
+   * Resolves once every change so far has been written to storage
+   */
+  flush(): Promise<void> {
+    return this.persistChain;
   }
 
   /**
@@ -56,87 +287,201 @@ export class MailQueue {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = undefined;
     }
-    this.clear();
+    // Drop in-memory state only - stored mail stays for the next session
+    this.queue = [];
+    this.inFlight.clear();
+    this.recentHashes.clear();
   }
 
   /**
    * Add a message to the queue
    * Returns null if message is duplicate, otherwise returns queue ID
+   * Hashes synchronously, which needs node:crypto; browsers use enqueueAsync
    */
-  enqueue(to: string, subject: string, body: string, headers?: Record<string, string>): string | null {
+  enqueue(
+    to: string,
+    subject: string,
+    body: string,
+    headers?: Record<string, string>,
+    options?: EnqueueOptions
+  ): string | null {
     const id = uuidv4();
-    return this.enqueueWithId(id, to, subject, body, headers) ? id : null;
+    return this.enqueueWithId(id, to, subject, body, headers, options) ? id : null;
   }
 
   /**
    * Add a message to the queue with a specific ID
    * Returns false if message is duplicate
+   * Hashes synchronously, which needs node:crypto; browsers use enqueueWithIdAsync
    */
-  enqueueWithId(id: string, to: string, subject: string, body: string, headers?: Record<string, string>): boolean {
-    const hash = this.generateHash(to, subject, body);
+  enqueueWithId(
+    id: string,
+    to: string,
+    subject: string,
+    body: string,
+    headers?: Record<string, string>,
+    options: EnqueueOptions = {}
+  ): boolean {
+    const candidate: DedupeCandidate = { to, subject, body, headers };
+    return this.add(id, candidate, options, sha256Hex(this.dedupeKey(candidate)));
+  }
+
+  /**
+   * Like enqueue, hashing with WebCrypto where node:crypto is unavailable
+   */
+  async enqueueAsync(
+    to: string,
+    subject: string,
+    body: string,
+    headers?: Record<string, string>,
+    options?: EnqueueOptions
+  ): Promise<string | null> {
+    const id = uuidv4();
+    return await this.enqueueWithIdAsync(id, to, subject, body, headers, options) ? id : null;
+  }
+
+  /**
+   * Like enqueueWithId, hashing with WebCrypto where node:crypto is unavailable
+   * Messages are queued in call order even if their digests finish out of order
+   */
+  async enqueueWithIdAsync(
+    id: string,
+    to: string,
+    subject: string,
+    body: string,
+    headers?: Record<string, string>,
+    options: EnqueueOptions = {}
+  ): Promise<boolean> {
+    const candidate: DedupeCandidate = { to, subject, body, headers };
+    const hashing = this.hashChain.then(() => sha256HexAsync(this.dedupeKey(candidate)));
+    this.hashChain = hashing.catch(() => {});
+    return this.add(id, candidate, options, await hashing);
+  }
+
+  /**
+   * Get the highest-priority message that is due
+   * Expired messages are dropped; scheduled and backed-off ones stay queued
+   * The message stays stored until complete(), requeue() or fail() is called
+   */
+  dequeue(): QueuedMail | null {
     const now = Date.now();
+    this.expireStale(now);
 
-    // Check for recent duplicate
-    const lastSeen = this.recentHashes.get(hash);
-    if (lastSeen && (now - lastSeen) < this.dedupeWindowMs) {
-      this.addDebugLog(`Duplicate message rejected: ${subject} to ${to}`);
-      return false;
+    let index = -1;
+    this.queue.forEach((mail, i) => {
+      if (this.dueAt(mail) > now) {
+        return;
+      }
+      if (index === -1 || mail.priority > this.queue[index].priority) {
+        index = i;
+      }
+    });
+
+    if (index === -1) {
+      return null;
     }
 
-    // Add to queue
-    const mail: QueuedMail = {
-      id,
-      to,
-      subject,
-      body,
-      timestamp: now,
-      attempts: 0,
-      hash,
-      headers: headers || undefined
-    };
+    const mail = this.queue.splice(index, 1)[0];
+    mail.attempts++;
+    mail.history = [...(mail.history ?? []), { attempt: mail.attempts, startedAt: now }];
+    this.inFlight.set(mail.id, mail);
+    this.stats.dequeued++;
+    this.persist();
+    this.emit(MailQueueEvent.DEQUEUED, mail);
+    return mail;
+  }
 
-    this.queue.push(mail);
-    this.recentHashes.set(hash, now);
-    this.addDebugLog(`Message queued: ${subject} to ${to} (${id})`);
+  /**
+   * Forget a dequeued message once it has been sent
+   * Returns false if the message wasn't in flight
+   */
+  complete(id: string): boolean {
+    const mail = this.inFlight.get(id);
+    if (!mail) {
+      return false;
+    }
 
+    this.inFlight.delete(id);
+    this.persist();
+    this.emit(MailQueueEvent.COMPLETED, mail);
     return true;
   }
 
   /**
-   * Get next message from queue
+   * Get when the next scheduled message becomes due
+   * Returns 0 if a message is due now, null if the queue is empty
    */
-  dequeue(): QueuedMail | null {
-    const mail = this.queue.shift();
-    if (mail) {
-      mail.attempts++;
-      this.addDebugLog(`Message dequeued: ${mail.subject} to ${mail.to} (attempt ${mail.attempts})`);
+  nextDueAt(): number | null {
+    const now = Date.now();
+    let next: number | null = null;
+    for (const mail of this.queue) {
+      const dueAt = this.dueAt(mail);
+      const due = dueAt > now ? dueAt : 0;
+      if (next === null || due < next) {
+        next = due;
+      }
     }
-    return mail || null;
+    return next;
   }
 
   /**
-   * Put message back in queue (for retry)
+   * Put message back in queue (for retry), optionally not before retryDelay ms
+   * Returns false if the message was moved to the dead letters instead
    */
-  requeue(mail: QueuedMail): void {
+  requeue(mail: QueuedMail, error?: unknown, retryDelay?: number): boolean {
+    const lastError = this.recordFailure(mail, error);
+    this.inFlight.delete(mail.id);
+
+    if (this.isExpired(mail, Date.now())) {
+      this.drop(mail, 'expired', lastError);
+      return false;
+    }
     if (mail.attempts < this.maxAttempts) {
+      if (retryDelay !== undefined) {
+        mail.nextAttemptAt = Date.now() + retryDelay;
+      }
       this.queue.unshift(mail);
-      this.addDebugLog(`Message requeued: ${mail.subject} to ${mail.to} (attempt ${mail.attempts})`);
+      this.stats.requeued++;
+      this.persist();
+
+      const event: RequeuedEvent = { mail };
+      if (lastError !== undefined) {
+        event.error = lastError;
+      }
+      if (retryDelay !== undefined) {
+        event.retryDelay = retryDelay;
+      }
+      this.emit(MailQueueEvent.REQUEUED, event);
+      return true;
     } else {
-      this.addDebugLog(`Message dropped after ${this.maxAttempts} attempts: ${mail.subject} to ${mail.to}`);
+      this.drop(mail, 'max_attempts', lastError);
+      return false;
     }
   }
 
   /**
-   * Remove a specific message from queue by ID
+   * Move a dequeued message straight to the dead letters, e.g. when the
+   * server rejected it and retrying won't help
+   */
+  fail(mail: QueuedMail, error?: unknown): void {
+    this.inFlight.delete(mail.id);
+    this.drop(mail, 'rejected', this.recordFailure(mail, error));
+  }
+
+  /**
+   * Remove a specific message from queue by ID, including one in flight
    */
   remove(id: string): boolean {
     const index = this.queue.findIndex(mail => mail.id === id);
-    if (index >= 0) {
-      const mail = this.queue.splice(index, 1)[0];
-      this.addDebugLog(`Message removed from queue: ${mail.subject} to ${mail.to} (${id})`);
-      return true;
+    const mail = index >= 0 ? this.queue.splice(index, 1)[0] : this.inFlight.get(id);
+    if (!mail) {
+      return false;
     }
-    return false;
+
+    this.inFlight.delete(id);
+    this.persist();
+    this.emit(MailQueueEvent.REMOVED, mail);
+    return true;
   }
 
   /**
@@ -162,81 +507,277 @@ export class MailQueue {
 
   /**
    * Clear the queue
+   * Mail already in flight is left to complete or fail
    */
   clear(): void {
+    const count = this.queue.length;
     this.queue = [];
     this.recentHashes.clear();
-    this.addDebugLog('Queue cleared');
+    this.persist();
+    this.emit(MailQueueEvent.CLEARED, { count });
   }
 
   /**
-   * Get debug log for AI debugging
+   * Get counters and the current queue shape
    */
-  getDebugLog(): readonly string[] {
-    return [...this.debugLog];
+  getStats(): MailQueueStats {
+    const oldest = this.queue.reduce<number | null>(
+      (min, mail) => (min === null || mail.timestamp < min ? mail.timestamp : min),
+      null
+    );
+    const attempts = this.stats.enqueued + this.stats.duplicatesRejected;
+
+    return {
+      ...this.stats,
+      pending: this.queue.length,
+      inFlight: this.inFlight.size,
+      deadLetters: this.deadLetters.length,
+      oldestAgeMs: oldest === null ? null : Date.now() - oldest,
+      dedupeHitRate: attempts === 0 ? 0 : this.stats.duplicatesRejected / attempts
+    };
   }
 
   /**
-   * Clear debug log
+   * Get messages the queue gave up on, oldest first
    */
-  clearDebugLog(): void {
-    this.debugLog = [];
+  getDeadLetters(): readonly DeadLetter[] {
+    return [...this.deadLetters];
   }
 
   /**
-   * Generate hash for deduplication
+   * Move dead letters back into the queue with a fresh attempt budget
+   * Replays every dead letter when no IDs are given; returns how many moved
+   * Expiry and scheduling are cleared since the retry was asked for explicitly
    */
-  private generateHash(to: string, subject: string, body: string): string {
-    // Create a more robust hash that includes content but is still readable
-    const content = `${to}|${subject}|${body.substring(0, 200)}`;
-    
-    // Simple but effective hash for deduplication
-    let hash = 0;
-    for (let i = 0; i < content.length; i++) {
-      const char = content.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32bit integer
+  replayDeadLetters(ids?: readonly string[]): number {
+    const replayed = this.takeDeadLetters(ids).map(({ mail }) => {
+      const { expiresAt: _expiresAt, notBefore: _notBefore, nextAttemptAt: _nextAttemptAt, ...rest } = mail;
+      return { ...rest, attempts: 0 };
+    });
+
+    if (replayed.length > 0) {
+      this.queue.push(...replayed);
+      this.stats.replayed += replayed.length;
+      this.persist();
+      replayed.forEach(mail => this.emit(MailQueueEvent.ENQUEUED, mail));
     }
-    
-    return hash.toString(36);
+    return replayed.length;
   }
 
   /**
-   * Clean up old hashes
+   * Discard dead letters, all of them when no IDs are given
+   * Returns how many were removed
    */
-  private cleanupHashes(): void {
+  purgeDeadLetters(ids?: readonly string[]): number {
+    const purged = this.takeDeadLetters(ids);
+    if (purged.length > 0) {
+      this.persist();
+      this.emit(MailQueueEvent.DEAD_LETTERS_PURGED, { count: purged.length });
+    }
+    return purged.length;
+  }
+
+  /**
+   * Dedupe and queue a message by the digest of its dedupe key
+   */
+  private add(id: string, candidate: DedupeCandidate, options: EnqueueOptions, hash: string): boolean {
+    const { to, subject, body, headers } = candidate;
     const now = Date.now();
-    const expired: string[] = [];
 
-    this.recentHashes.forEach((timestamp, hash) => {
-      if (now - timestamp > this.dedupeWindowMs * 2) {
-        expired.push(hash);
+    // Check for recent duplicate
+    const lastSeen = this.recentHashes.get(hash);
+    if (!options.skipDedupe && lastSeen && (now - lastSeen) < this.dedupeWindowMs) {
+      this.stats.duplicatesRejected++;
+      this.emit(MailQueueEvent.DUPLICATE_REJECTED, { to, subject, hash, firstSeenAt: lastSeen });
+      return false;
+    }
+
+    // Add to queue
+    const mail: QueuedMail = {
+      id,
+      to,
+      subject,
+      body,
+      timestamp: now,
+      attempts: 0,
+      hash,
+      headers: headers || undefined,
+      priority: options.priority ?? MailPriority.NORMAL
+    };
+
+    const expiresAt = options.expiresAt ?? (options.ttl !== undefined ? now + options.ttl : undefined);
+    if (expiresAt !== undefined) {
+      mail.expiresAt = expiresAt;
+    }
+    if (options.notBefore !== undefined) {
+      mail.notBefore = options.notBefore;
+    }
+
+    this.queue.push(mail);
+    this.recentHashes.set(hash, now);
+    this.stats.enqueued++;
+    this.persist();
+    this.emit(MailQueueEvent.ENQUEUED, mail);
+
+    return true;
+  }
+
+  /**
+   * Drop queued messages whose expiry has passed
+   */
+  private expireStale(now = Date.now()): void {
+    const expired = this.queue.filter(mail => this.isExpired(mail, now));
+    if (expired.length === 0) {
+      return;
+    }
+
+    this.queue = this.queue.filter(mail => !this.isExpired(mail, now));
+    expired.forEach(mail => this.drop(mail, 'expired'));
+    this.persist();
+  }
+
+  /**
+   * Get the earliest time a message may be sent
+   */
+  private dueAt(mail: QueuedMail): number {
+    return Math.max(mail.notBefore ?? 0, mail.nextAttemptAt ?? 0);
+  }
+
+  /**
+   * Check whether a message is past its expiry
+   */
+  private isExpired(mail: QueuedMail, now: number): boolean {
+    return mail.expiresAt !== undefined && mail.expiresAt <= now;
+  }
+
+  /**
+   * Move a message to the dead letters
+   */
+  private drop(mail: QueuedMail, reason: MailDropReason, lastError?: string): void {
+    const deadLetter: DeadLetter = { mail, reason, droppedAt: Date.now() };
+    if (lastError !== undefined) {
+      deadLetter.lastError = lastError;
+    }
+
+    this.deadLetters.push(deadLetter);
+    if (this.deadLetters.length > this.maxDeadLetters) {
+      this.deadLetters.shift();
+    }
+
+    this.stats.dropped++;
+    this.persist();
+    if (reason === 'expired') {
+      this.stats.expired++;
+      this.emit(MailQueueEvent.EXPIRED, deadLetter);
+    }
+    this.emit(MailQueueEvent.DROPPED, deadLetter);
+  }
+
+  /**
+   * Note a failed attempt on the mail's history
+   * Returns the error message, if any
+   */
+  private recordFailure(mail: QueuedMail, error: unknown): string | undefined {
+    const message = error === undefined ? undefined : error instanceof Error ? error.message : String(error);
+    const current = mail.history?.[mail.history.length - 1];
+    if (current && current.failedAt === undefined) {
+      current.failedAt = Date.now();
+      if (message !== undefined) {
+        current.error = message;
       }
-    });
+    }
+    return message;
+  }
 
-    expired.forEach(hash => this.recentHashes.delete(hash));
-    
-    if (expired.length > 0) {
-      this.addDebugLog(`Cleaned up ${expired.length} expired hash(es)`);
+  /**
+   * Remove and return dead letters by mail ID, or all of them
+   */
+  private takeDeadLetters(ids?: readonly string[]): DeadLetter[] {
+    if (!ids) {
+      return this.deadLetters.splice(0);
     }
+
+    const wanted = new Set(ids);
+    const taken = this.deadLetters.filter(letter => wanted.has(letter.mail.id));
+    this.deadLetters = this.deadLetters.filter(letter => !wanted.has(letter.mail.id));
+    return taken;
   }
 
   /**
-   * Add to debug log
+   * Load stored messages ahead of anything enqueued meanwhile
+   * Mail that was in flight when the snapshot was taken may not have been
+   * sent, so it is queued again with the same ID
    */
-  private addDebugLog(message: string): void {
-    const timestamp = new Date().toISOString();
-    const logMessage = `[${timestamp}] ${message}`;
-    this.debugLog.push(logMessage);
-    
-    // Keep log size manageable
-    if (this.debugLog.length > this.maxDebugLog) {
-      this.debugLog.shift();
+  private async rehydrate(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+
+    try {
+      const snapshot = await this.storage.loadQueue();
+      if (!snapshot) {
+        return;
+      }
+
+      const pendingIds = new Set([...this.queue.map(mail => mail.id), ...this.inFlight.keys()]);
+      const stored = [...(snapshot.inFlight ?? []), ...snapshot.queue]
+        .filter(mail => !pendingIds.has(mail.id))
+        .map(mail => ({ ...mail, priority: mail.priority ?? MailPriority.NORMAL }));
+      this.queue = [...stored, ...this.queue];
+      const storedLetters = snapshot.deadLetters ?? [];
+      this.deadLetters = [...storedLetters, ...this.deadLetters].slice(-this.maxDeadLetters);
+      for (const [hash, timestamp] of snapshot.recentHashes) {
+        if (!this.recentHashes.has(hash)) {
+          this.recentHashes.set(hash, timestamp);
+        }
+      }
+      this.emit(MailQueueEvent.REHYDRATED, { count: stored.length });
+    } catch (error) {
+      this.emit(MailQueueEvent.STORAGE_ERROR, { operation: 'load', error });
     }
+  }
 
-    // Also log to console for visibility (if enabled)
-    if (this.enableConsoleLogging) {
-      console.log(`📬 MailQueue: ${message}`);
+  /**
+   * Write the current state to storage after any pending writes
+   */
+  private persist(): void {
+    if (!this.storage) {
+      return;
     }
+
+    const storage = this.storage;
+    this.persistChain = this.persistChain
+      .then(() => storage.saveQueue(this.snapshot()))
+      .catch(error => {
+        this.emit(MailQueueEvent.STORAGE_ERROR, { operation: 'save', error });
+      });
+  }
+
+  /**
+   * Capture queue and dedupe state for storage
+   */
+  private snapshot(): MailQueueSnapshot {
+    return {
+      queue: this.queue.map(mail => ({ ...mail })),
+      inFlight: Array.from(this.inFlight.values(), mail => ({ ...mail })),
+      recentHashes: Array.from(this.recentHashes.entries()),
+      deadLetters: this.deadLetters.map(letter => ({ ...letter, mail: { ...letter.mail } }))
+    };
+  }
+
+  /**
+   * Clean up old hashes
+   */
+  private cleanupHashes(): void {
+    const now = Date.now();
+    const expired: string[] = [];
+
+    this.recentHashes.forEach((timestamp, hash) => {
+      if (now - timestamp > this.dedupeWindowMs * 2) {
+        expired.push(hash);
+      }
+    });
+
+    expired.forEach(hash => this.recentHashes.delete(hash));
   }
 }
\ No newline at end of file
@@ -0,0 +1,117 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MailQueue, MailQueueEvent } from './MailQueue.js';
+import { MailQueueDebugLog } from './MailQueueDebugLog.js';
+import type { MailQueueStorage } from './MailQueueStorage.js';
+
+/**
+ * Strip the timestamp prefix from log entries
+ */
+function messages(log: MailQueueDebugLog): string[] {
+  return log.getEntries().map(entry => entry.replace(/^\[[^\]]+\] /, ''));
+}
+
+describe('MailQueueDebugLog', () => {
+  let queue: MailQueue;
+
+  beforeEach(() => {
+    queue = new MailQueue({ maxAttempts: 2 });
+  });
+
+  afterEach(() => {
+    queue.destroy();
+    vi.restoreAllMocks();
+  });
+
+  it('describes each queue event in order', () => {
+    const log = new MailQueueDebugLog(queue);
+    const id = queue.enqueue('agent@mindswarm.ai', 'List Projects', 'body')!;
+    queue.enqueue('agent@mindswarm.ai', 'List Projects', 'body');
+    queue.requeue(queue.dequeue()!, new Error('timeout'));
+    queue.complete(queue.dequeue()!.id);
+    queue.clear();
+
+    expect(messages(log)).toEqual([
+      `Message queued: List Projects to agent@mindswarm.ai (${id})`,
+      'Duplicate message rejected: List Projects to agent@mindswarm.ai',
+      'Message dequeued: List Projects to agent@mindswarm.ai (attempt 1)',
+      'Message requeued: List Projects to agent@mindswarm.ai (attempt 1, last error: timeout)',
+      'Message dequeued: List Projects to agent@mindswarm.ai (attempt 2)',
+      `Message sent: List Projects to agent@mindswarm.ai (${id})`,
+      'Queue cleared (0 message(s))'
+    ]);
+  });
+
+  it('logs expired mail and purged dead letters', () => {
+    const log = new MailQueueDebugLog(queue);
+    const id = queue.enqueue('agent@mindswarm.ai', 'Stale', 'body', undefined, { expiresAt: 1 })!;
+    log.clear();
+
+    expect(queue.dequeue()).toBeNull();
+    queue.purgeDeadLetters();
+
+    expect(messages(log)).toEqual([
+      `Message expired: Stale to agent@mindswarm.ai (${id})`,
+      'Purged 1 dead letter(s)'
+    ]);
+  });
+
+  it('logs rejected and exhausted mail', () => {
+    const log = new MailQueueDebugLog(queue);
+    queue.enqueue('agent@mindswarm.ai', 'Invalid', 'body');
+    queue.fail(queue.dequeue()!, new Error('unknown project'));
+    queue.enqueue('agent@mindswarm.ai', 'Flaky', 'body');
+    queue.requeue(queue.dequeue()!);
+    queue.requeue(queue.dequeue()!);
+
+    expect(messages(log)).toContain('Message rejected: Invalid to agent@mindswarm.ai (unknown project)');
+    expect(messages(log)).toContain('Message dropped after 2 attempts: Flaky to agent@mindswarm.ai');
+  });
+
+  it('keeps only the newest maxEntries entries', () => {
+    const log = new MailQueueDebugLog(queue, { maxEntries: 2 });
+    ['One', 'Two', 'Three'].forEach(subject => queue.enqueue('agent@mindswarm.ai', subject, 'body'));
+
+    expect(messages(log)).toEqual([
+      expect.stringMatching(/^Message queued: Two/),
+      expect.stringMatching(/^Message queued: Three/)
+    ]);
+  });
+
+  it('writes to the console only when asked and stops after detach()', () => {
+    const consoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const quiet = new MailQueueDebugLog(queue);
+    const loud = new MailQueueDebugLog(queue, { console: true });
+
+    queue.enqueue('agent@mindswarm.ai', 'One', 'body');
+    loud.detach();
+    queue.enqueue('agent@mindswarm.ai', 'Two', 'body');
+
+    expect(consoleLog).toHaveBeenCalledOnce();
+    expect(consoleLog.mock.calls[0][0]).toMatch(/^📬 MailQueue: Message queued: One/);
+    expect(quiet.getEntries()).toHaveLength(2);
+  });
+
+  it('logs storage failures', async () => {
+    const storage: MailQueueStorage = {
+      loadQueue: () => Promise.reject(new Error('disk unavailable')),
+      saveQueue: () => Promise.reject(new Error('disk full')),
+      clearQueue: () => Promise.resolve()
+    };
+    const errors: string[] = [];
+    const stored = new MailQueue({ storage });
+    const log = new MailQueueDebugLog(stored);
+    stored.on(MailQueueEvent.STORAGE_ERROR, ({ operation }) => errors.push(operation));
+
+    await stored.ready();
+    stored.enqueue('agent@mindswarm.ai', 'One', 'body');
+    await stored.flush();
+    stored.destroy();
+
+    expect(errors).toEqual(['load', 'save']);
+    expect(messages(log)).toEqual([
+      'Failed to load queue from storage: Error: disk unavailable',
+      expect.stringMatching(/^Message queued: One/),
+      'Failed to save queue to storage: Error: disk full'
+    ]);
+  });
+});
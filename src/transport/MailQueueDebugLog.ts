@@ -0,0 +1,113 @@
+/**
+ * Human-readable log of MailQueue activity, built from its events
+ */
+
+import type { Unsubscribe } from '../utils/EventEmitter.js';
+import { MailQueueEvent } from './MailQueue.js';
+import type { MailQueue } from './MailQueue.js';
+
+export interface MailQueueDebugLogOptions {
+  /**
+   * Entries to keep; the oldest are discarded first (default 100)
+   */
+  maxEntries?: number;
+  /**
+   * Also write each entry to the console (default false)
+   */
+  console?: boolean;
+}
+
+/**
+ * Optional string log sink for a MailQueue
+ */
+export class MailQueueDebugLog {
+  private entries: string[] = [];
+  private maxEntries: number;
+  private logToConsole: boolean;
+  private subscriptions: Unsubscribe[];
+
+  constructor(queue: MailQueue, options: MailQueueDebugLogOptions = {}) {
+    this.maxEntries = options.maxEntries ?? 100;
+    this.logToConsole = options.console ?? false;
+
+    this.subscriptions = [
+      queue.on(MailQueueEvent.ENQUEUED, mail => {
+        this.add(`Message queued: ${mail.subject} to ${mail.to} (${mail.id})`);
+      }),
+      queue.on(MailQueueEvent.DUPLICATE_REJECTED, ({ subject, to }) => {
+        this.add(`Duplicate message rejected: ${subject} to ${to}`);
+      }),
+      queue.on(MailQueueEvent.DEQUEUED, mail => {
+        this.add(`Message dequeued: ${mail.subject} to ${mail.to} (attempt ${mail.attempts})`);
+      }),
+      queue.on(MailQueueEvent.COMPLETED, mail => {
+        this.add(`Message sent: ${mail.subject} to ${mail.to} (${mail.id})`);
+      }),
+      queue.on(MailQueueEvent.REQUEUED, ({ mail, error }) => {
+        const reason = error ? `, last error: ${error}` : '';
+        this.add(`Message requeued: ${mail.subject} to ${mail.to} (attempt ${mail.attempts}${reason})`);
+      }),
+      queue.on(MailQueueEvent.REMOVED, mail => {
+        this.add(`Message removed from queue: ${mail.subject} to ${mail.to} (${mail.id})`);
+      }),
+      queue.on(MailQueueEvent.EXPIRED, ({ mail }) => {
+        this.add(`Message expired: ${mail.subject} to ${mail.to} (${mail.id})`);
+      }),
+      queue.on(MailQueueEvent.DROPPED, ({ mail, reason, lastError }) => {
+        if (reason === 'rejected') {
+          this.add(`Message rejected: ${mail.subject} to ${mail.to} (${lastError ?? 'no reason given'})`);
+        } else if (reason === 'max_attempts') {
+          this.add(`Message dropped after ${mail.attempts} attempts: ${mail.subject} to ${mail.to}`);
+        }
+      }),
+      queue.on(MailQueueEvent.CLEARED, ({ count }) => {
+        this.add(`Queue cleared (${count} message(s))`);
+      }),
+      queue.on(MailQueueEvent.DEAD_LETTERS_PURGED, ({ count }) => {
+        this.add(`Purged ${count} dead letter(s)`);
+      }),
+      queue.on(MailQueueEvent.REHYDRATED, ({ count }) => {
+        this.add(`Rehydrated ${count} message(s) from storage`);
+      }),
+      queue.on(MailQueueEvent.STORAGE_ERROR, ({ operation, error }) => {
+        this.add(`Failed to ${operation} queue ${operation === 'load' ? 'from' : 'to'} storage: ${error}`);
+      })
+    ];
+  }
+
+  /**
+   * Get the logged entries, oldest first
+   */
+  getEntries(): readonly string[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Forget logged entries
+   */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /**
+   * Stop listening to the queue
+   */
+  detach(): void {
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+  }
+
+  /**
+   * Add a timestamped entry
+   */
+  private add(message: string): void {
+    this.entries.push(`[${new Date().toISOString()}] ${message}`);
+    if (this.entries.length > this.maxEntries) {
+      this.entries.shift();
+    }
+
+    if (this.logToConsole) {
+      console.log(`📬 MailQueue: ${message}`);
+    }
+  }
+}
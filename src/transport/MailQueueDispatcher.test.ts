@@ -0,0 +1,173 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SentMail } from '../types/mail.js';
+import { MailDeliveryError } from './errors.js';
+import { LoopbackMailTransport } from './LoopbackMailTransport.js';
+import { MailQueue } from './MailQueue.js';
+import { MailQueueDispatcher, MailQueueDispatcherEvent } from './MailQueueDispatcher.js';
+import type { DispatchFailedEvent, DispatchRetryEvent, MailQueueDispatcherConfig } from './MailQueueDispatcher.js';
+
+describe('MailQueueDispatcher', () => {
+  let queue: MailQueue;
+  let transport: LoopbackMailTransport;
+  let dispatcher: MailQueueDispatcher;
+
+  beforeEach(async () => {
+    queue = new MailQueue();
+    transport = new LoopbackMailTransport();
+    await transport.connect();
+  });
+
+  afterEach(async () => {
+    await dispatcher.stop().catch(() => {});
+    queue.destroy();
+    await transport.disconnect();
+  });
+
+  function createDispatcher(config: Partial<MailQueueDispatcherConfig> = {}): MailQueueDispatcher {
+    dispatcher = new MailQueueDispatcher({ queue, transport, retryStrategy: { nextDelay: () => 10 }, ...config });
+    return dispatcher;
+  }
+
+  function enqueue(...subjects: string[]): void {
+    subjects.forEach(subject => queue.enqueue('agent@mindswarm.ai', subject, 'body'));
+  }
+
+  /**
+   * Send the next mail but hold back its result until the returned function is called
+   */
+  function holdNextSend(): () => void {
+    let release = () => {};
+    const sendMail = transport.sendMail.bind(transport);
+    vi.spyOn(transport, 'sendMail').mockImplementationOnce(mail => {
+      const sent = sendMail(mail);
+      return new Promise<SentMail>(resolve => {
+        release = () => resolve(sent);
+      });
+    });
+    return () => release();
+  }
+
+  it('sends queued mail in order and completes it in the queue', async () => {
+    enqueue('One', 'Two', 'Three');
+    createDispatcher();
+
+    await dispatcher.drain();
+
+    expect(transport.getSentMail().map(mail => mail.subject)).toEqual(['One', 'Two', 'Three']);
+    expect(dispatcher.getProgress()).toEqual({ sent: 3, failed: 0, retried: 0, inFlight: 0, pending: 0 });
+    expect(queue.getStats().inFlight).toBe(0);
+  });
+
+  it('retries a failed send after the strategy delay with the same Message-ID', async () => {
+    const retries: DispatchRetryEvent[] = [];
+    vi.spyOn(transport, 'sendMail').mockRejectedValueOnce(new MailDeliveryError('timeout', 'id', 'No ack'));
+    enqueue('Flaky');
+    createDispatcher();
+    dispatcher.on(MailQueueDispatcherEvent.RETRY_SCHEDULED, event => retries.push(event));
+
+    await dispatcher.drain();
+
+    expect(retries).toMatchObject([{ delay: 10, error: { code: 'timeout' } }]);
+    expect(transport.getSentMail().map(mail => mail.message_id)).toEqual([retries[0].mail.id]);
+    expect(dispatcher.getProgress()).toMatchObject({ sent: 1, retried: 1 });
+  });
+
+  it('dead-letters rejected mail without retrying it', async () => {
+    const failures: DispatchFailedEvent[] = [];
+    const nextDelay = vi.fn(() => 10);
+    vi.spyOn(transport, 'sendMail').mockRejectedValueOnce(new MailDeliveryError('rejected', 'id', 'Unknown project'));
+    enqueue('Invalid');
+    createDispatcher({ retryStrategy: { nextDelay } });
+    dispatcher.on(MailQueueDispatcherEvent.FAILED, event => failures.push(event));
+
+    await dispatcher.drain();
+
+    expect(nextDelay).not.toHaveBeenCalled();
+    expect(failures).toHaveLength(1);
+    expect(failures[0].deadLetter).toMatchObject({ reason: 'rejected', lastError: 'Unknown project' });
+  });
+
+  it('sends up to the concurrency limit at once', async () => {
+    const releases = [holdNextSend(), holdNextSend()];
+    enqueue('One', 'Two', 'Three');
+    createDispatcher({ concurrency: 2 });
+
+    expect(dispatcher.getProgress()).toMatchObject({ inFlight: 2, pending: 1 });
+    releases.forEach(release => release());
+    await dispatcher.drain();
+
+    expect(dispatcher.getProgress().sent).toBe(3);
+  });
+
+  describe('pause and resume', () => {
+    it('holds mail while the transport is disconnected and sends it after reconnecting', async () => {
+      const events: string[] = [];
+      createDispatcher();
+      dispatcher.on(MailQueueDispatcherEvent.PAUSED, () => events.push('paused'));
+      dispatcher.on(MailQueueDispatcherEvent.RESUMED, () => events.push('resumed'));
+
+      await transport.disconnect();
+      enqueue('Offline');
+      expect(dispatcher.isPaused()).toBe(true);
+      expect(queue.size()).toBe(1);
+
+      await transport.connect();
+      await dispatcher.drain();
+
+      expect(events).toEqual(['paused', 'resumed']);
+      expect(transport.getSentMail().map(mail => mail.subject)).toEqual(['Offline']);
+    });
+
+    it('rejects drain() right away while paused', async () => {
+      createDispatcher();
+      await transport.disconnect();
+      enqueue('Offline');
+
+      await expect(dispatcher.drain()).rejects.toThrow('Dispatcher paused while the transport is disconnected');
+    });
+
+    it('rejects pending drain() calls when the transport disconnects with mail left', async () => {
+      const release = holdNextSend();
+      enqueue('One', 'Two');
+      createDispatcher();
+      const draining = dispatcher.drain();
+
+      await transport.disconnect();
+      release();
+
+      await expect(draining).rejects.toThrow('Dispatcher paused while the transport is disconnected');
+      expect(queue.size()).toBe(1);
+    });
+  });
+
+  describe('stop', () => {
+    it('waits for in-flight sends and resolves pending drain() calls once the queue is empty', async () => {
+      const release = holdNextSend();
+      enqueue('Last');
+      createDispatcher();
+      const draining = dispatcher.drain();
+
+      const stopping = dispatcher.stop();
+      release();
+      await stopping;
+
+      await expect(draining).resolves.toBeUndefined();
+      expect(transport.getSentMail()).toHaveLength(1);
+    });
+
+    it('rejects pending drain() calls when mail is left unsent', async () => {
+      const release = holdNextSend();
+      enqueue('One', 'Two');
+      createDispatcher();
+      const draining = dispatcher.drain();
+
+      const stopping = dispatcher.stop();
+      release();
+      await stopping;
+
+      await expect(draining).rejects.toThrow('Dispatcher stopped before the queue was drained');
+      expect(queue.size()).toBe(1);
+      await expect(dispatcher.drain()).rejects.toThrow('Dispatcher is not running');
+    });
+  });
+});
@@ -0,0 +1,354 @@
+/**
+ * Mail Queue Dispatcher
+ *
+ * Drains a MailQueue into any MailTransport: sends up to `concurrency`
+ * messages at once, backs off per message on failure and pauses while
+ * the transport is disconnected.
+ */
+
+import { EventEmitter } from '../utils/EventEmitter.js';
+import type { Unsubscribe } from '../utils/EventEmitter.js';
+import { MailDeliveryError } from './errors.js';
+import { MailQueueEvent } from './MailQueue.js';
+import type { DeadLetter, MailQueue, QueuedMail } from './MailQueue.js';
+import { ExponentialBackoffStrategy } from './ReconnectStrategy.js';
+import type { ReconnectStrategy } from './ReconnectStrategy.js';
+import { TransportEvent } from './types.js';
+import type { Mail, MailTransport } from './types.js';
+
+export interface MailQueueDispatcherConfig {
+  queue: MailQueue;
+  transport: MailTransport;
+  /**
+   * Messages sent at the same time (default 1, which keeps queue order)
+   */
+  concurrency?: number;
+  /**
+   * Delay before retrying a message, by attempt number
+   * Returning null gives up; the queue's maxAttempts applies either way
+   */
+  retryStrategy?: ReconnectStrategy;
+  /**
+   * Start sending immediately (default true)
+   */
+  autoStart?: boolean;
+}
+
+export enum MailQueueDispatcherEvent {
+  SENT = 'sent',
+  RETRY_SCHEDULED = 'retry_scheduled',
+  FAILED = 'failed',
+  PROGRESS = 'progress',
+  PAUSED = 'paused',
+  RESUMED = 'resumed',
+  IDLE = 'idle'
+}
+
+export interface DispatchSentEvent {
+  mail: QueuedMail;
+  sent: Mail;
+}
+
+export interface DispatchRetryEvent {
+  mail: QueuedMail;
+  error: unknown;
+  /**
+   * ms until the next attempt
+   */
+  delay: number;
+}
+
+export interface DispatchFailedEvent {
+  mail: QueuedMail;
+  error: unknown;
+  deadLetter?: DeadLetter;
+}
+
+/**
+ * Running totals since the dispatcher was created
+ */
+export interface DispatchProgress {
+  sent: number;
+  failed: number;
+  retried: number;
+  inFlight: number;
+  pending: number;
+}
+
+export type MailQueueDispatcherEventMap = {
+  [MailQueueDispatcherEvent.SENT]: [event: DispatchSentEvent];
+  [MailQueueDispatcherEvent.RETRY_SCHEDULED]: [event: DispatchRetryEvent];
+  [MailQueueDispatcherEvent.FAILED]: [event: DispatchFailedEvent];
+  [MailQueueDispatcherEvent.PROGRESS]: [progress: DispatchProgress];
+  [MailQueueDispatcherEvent.PAUSED]: [];
+  [MailQueueDispatcherEvent.RESUMED]: [];
+  [MailQueueDispatcherEvent.IDLE]: [];
+};
+
+/**
+ * Pumps queued mail into a transport
+ */
+export class MailQueueDispatcher extends EventEmitter<MailQueueDispatcherEventMap> {
+  private queue: MailQueue;
+  private transport: MailTransport;
+  private concurrency: number;
+  private retryStrategy: ReconnectStrategy;
+  private running = false;
+  private paused = false;
+  private idle = true;
+  private inFlight = new Set<Promise<void>>();
+  private wakeTimer?: ReturnType<typeof setTimeout> | undefined;
+  private subscriptions: Unsubscribe[] = [];
+  private drainWaiters: Array<{ resolve: () => void; reject: (error: Error) => void }> = [];
+  private sent = 0;
+  private failed = 0;
+  private retried = 0;
+
+  constructor(config: MailQueueDispatcherConfig) {
+    super();
+    this.queue = config.queue;
+    this.transport = config.transport;
+    this.concurrency = Math.max(1, config.concurrency ?? 1);
+    this.retryStrategy = config.retryStrategy ?? new ExponentialBackoffStrategy({ maxAttempts: Infinity });
+
+    if (config.autoStart ?? true) {
+      this.start();
+    }
+  }
+
+  /**
+   * Start listening to the queue and transport and send what is due
+   */
+  start(): void {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.paused = !this.transport.isConnected();
+    this.subscriptions = [
+      this.queue.on(MailQueueEvent.ENQUEUED, () => this.pump()),
+      this.transport.on(TransportEvent.CONNECTED, () => this.handleConnected()),
+      this.transport.on(TransportEvent.DISCONNECTED, () => this.handleDisconnected())
+    ];
+    this.pump();
+  }
+
+  /**
+   * Stop sending new mail
+   * Resolves once the sends already in flight have settled; pending drain()
+   * calls resolve if that emptied the queue and reject otherwise
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    this.clearWakeTimer();
+    this.subscriptions.forEach(unsubscribe => unsubscribe());
+    this.subscriptions = [];
+    await Promise.allSettled([...this.inFlight]);
+    this.settleDrainWaiters(new Error('Dispatcher stopped before the queue was drained'));
+  }
+
+  /**
+   * Resolves once the queue is empty and nothing is in flight
+   * Mail that ends up in the dead letters counts as done
+   * Rejects if the dispatcher is stopped, or paused while the transport is
+   * disconnected, before that happens
+   */
+  drain(): Promise<void> {
+    if (this.isDrained()) {
+      return Promise.resolve();
+    }
+    const error = this.drainBlocker();
+    if (error) {
+      return Promise.reject(error);
+    }
+    return new Promise((resolve, reject) => this.drainWaiters.push({ resolve, reject }));
+  }
+
+  /**
+   * Check whether sending is on hold until the transport reconnects
+   */
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  /**
+   * Get running totals and current queue depth
+   */
+  getProgress(): DispatchProgress {
+    return {
+      sent: this.sent,
+      failed: this.failed,
+      retried: this.retried,
+      inFlight: this.inFlight.size,
+      pending: this.queue.size()
+    };
+  }
+
+  /**
+   * Send due messages until the concurrency limit is reached
+   */
+  private pump(): void {
+    this.clearWakeTimer();
+    if (!this.running || this.paused) {
+      return;
+    }
+
+    while (this.inFlight.size < this.concurrency) {
+      const mail = this.queue.dequeue();
+      if (!mail) {
+        break;
+      }
+      this.idle = false;
+
+      const sending = this.dispatch(mail).finally(() => {
+        this.inFlight.delete(sending);
+        this.emit(MailQueueDispatcherEvent.PROGRESS, this.getProgress());
+        this.pump();
+      });
+      this.inFlight.add(sending);
+    }
+
+    if (this.inFlight.size === 0) {
+      this.scheduleWake();
+    }
+    this.checkDrained();
+  }
+
+  /**
+   * Send one message and retry or dead-letter it on failure
+   */
+  private async dispatch(mail: QueuedMail): Promise<void> {
+    try {
+      const sent = await this.transport.sendMailTo(mail.to, mail.subject, mail.body, {
+        messageId: mail.id,
+        ...(mail.headers ? { headers: mail.headers } : {})
+      });
+      this.queue.complete(mail.id);
+      this.sent++;
+      this.emit(MailQueueDispatcherEvent.SENT, { mail, sent });
+    } catch (error) {
+      this.handleFailure(mail, error);
+    }
+  }
+
+  /**
+   * Back off and requeue, or give up on a message
+   */
+  private handleFailure(mail: QueuedMail, error: unknown): void {
+    // The server said no - retrying the same mail won't change that
+    const delay = error instanceof MailDeliveryError && error.code === 'rejected'
+      ? null
+      : this.retryStrategy.nextDelay(mail.attempts);
+
+    if (delay === null) {
+      this.queue.fail(mail, error);
+    } else if (this.queue.requeue(mail, error, delay)) {
+      this.retried++;
+      this.emit(MailQueueDispatcherEvent.RETRY_SCHEDULED, { mail, error, delay });
+      return;
+    }
+
+    this.failed++;
+    const deadLetter = this.queue.getDeadLetters().find(letter => letter.mail.id === mail.id);
+    this.emit(MailQueueDispatcherEvent.FAILED, { mail, error, ...(deadLetter ? { deadLetter } : {}) });
+  }
+
+  /**
+   * Wake up when the next scheduled or backed-off message is due
+   */
+  private scheduleWake(): void {
+    const dueAt = this.queue.nextDueAt();
+    if (dueAt === null) {
+      return;
+    }
+
+    this.wakeTimer = setTimeout(() => {
+      this.wakeTimer = undefined;
+      this.pump();
+    }, Math.max(0, dueAt - Date.now()));
+  }
+
+  /**
+   * Clear the wake-up timer
+   */
+  private clearWakeTimer(): void {
+    if (this.wakeTimer) {
+      clearTimeout(this.wakeTimer);
+      this.wakeTimer = undefined;
+    }
+  }
+
+  /**
+   * Resume sending after the transport reconnects
+   */
+  private handleConnected(): void {
+    if (!this.paused) {
+      return;
+    }
+    this.paused = false;
+    this.emit(MailQueueDispatcherEvent.RESUMED);
+    this.pump();
+  }
+
+  /**
+   * Hold sending while the transport is down
+   * In-flight sends fail on their own and are retried after reconnecting
+   */
+  private handleDisconnected(): void {
+    if (this.paused) {
+      return;
+    }
+    this.paused = true;
+    this.clearWakeTimer();
+    this.emit(MailQueueDispatcherEvent.PAUSED);
+    // In-flight sends still settle; waiters only hear back once they have
+    Promise.allSettled([...this.inFlight]).then(() => {
+      if (this.paused) {
+        this.settleDrainWaiters(new Error('Dispatcher paused while the transport is disconnected'));
+      }
+    });
+  }
+
+  /**
+   * Check whether there is nothing left to send
+   */
+  private isDrained(): boolean {
+    return this.queue.isEmpty() && this.inFlight.size === 0;
+  }
+
+  /**
+   * Resolve drain() callers once everything has been sent or given up on
+   */
+  private checkDrained(): void {
+    if (!this.isDrained()) {
+      return;
+    }
+    if (!this.idle) {
+      this.idle = true;
+      this.emit(MailQueueDispatcherEvent.IDLE);
+    }
+    this.drainWaiters.splice(0).forEach(({ resolve }) => resolve());
+  }
+
+  /**
+   * Explain why drain() can't finish right now, or null if it can
+   */
+  private drainBlocker(): Error | null {
+    if (!this.running) {
+      return new Error('Dispatcher is not running');
+    }
+    if (this.paused) {
+      return new Error('Dispatcher paused while the transport is disconnected');
+    }
+    return null;
+  }
+
+  /**
+   * Resolve drain() callers if the queue is empty, otherwise reject them
+   */
+  private settleDrainWaiters(error: Error): void {
+    const drained = this.isDrained();
+    this.drainWaiters.splice(0).forEach(({ resolve, reject }) => (drained ? resolve() : reject(error)));
+  }
+}
@@ -0,0 +1,66 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { MailQueue } from './MailQueue.js';
+import { InMemoryMailQueueStorage, JsonFileMailQueueStorage } from './MailQueueStorage.js';
+
+describe('MailQueueStorage', () => {
+  let dir: string;
+  let queue: MailQueue | undefined;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'mail-queue-'));
+  });
+
+  afterEach(async () => {
+    queue?.destroy();
+    queue = undefined;
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('returns null until something is saved', async () => {
+    await expect(new JsonFileMailQueueStorage(join(dir, 'queue.json')).loadQueue()).resolves.toBeNull();
+    await expect(new InMemoryMailQueueStorage().loadQueue()).resolves.toBeNull();
+  });
+
+  it('restores queued mail, dead letters and dedupe state from a JSON file', async () => {
+    const filePath = join(dir, 'nested', 'queue.json');
+    const first = new MailQueue({ storage: new JsonFileMailQueueStorage(filePath), maxAttempts: 1 });
+    const keptId = first.enqueue('agent@mindswarm.ai', 'List Projects', 'body')!;
+    first.enqueue('agent@mindswarm.ai', 'Delete Project', 'body');
+    first.dequeue();
+    first.requeue(first.dequeue()!, new Error('timeout'));
+    await first.flush();
+    first.destroy();
+
+    queue = new MailQueue({ storage: new JsonFileMailQueueStorage(filePath) });
+    await queue.ready();
+
+    expect(queue.getAll().map(mail => mail.id)).toEqual([keptId]);
+    expect(queue.getDeadLetters().map(letter => [letter.mail.subject, letter.lastError])).toEqual([
+      ['Delete Project', 'timeout']
+    ]);
+    expect(queue.enqueue('agent@mindswarm.ai', 'Delete Project', 'body')).toBeNull();
+    expect(await readdir(join(dir, 'nested'))).toEqual(['queue.json']);
+  });
+
+  it('removes the file on clearQueue', async () => {
+    const storage = new JsonFileMailQueueStorage(join(dir, 'queue.json'));
+    await storage.saveQueue({ queue: [], recentHashes: [] });
+
+    await storage.clearQueue();
+
+    await expect(storage.loadQueue()).resolves.toBeNull();
+  });
+
+  it('hands out copies of the in-memory snapshot', async () => {
+    const storage = new InMemoryMailQueueStorage();
+    await storage.saveQueue({ queue: [], recentHashes: [['hash', 1]] });
+
+    const loaded = await storage.loadQueue();
+    loaded!.recentHashes.push(['other', 2]);
+
+    expect((await storage.loadQueue())!.recentHashes).toEqual([['hash', 1]]);
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Persistent storage backends for MailQueue
+ */
+
+import type { DeadLetter, QueuedMail } from './MailQueue.js';
+
+/**
+ * Everything needed to rebuild a queue, including dedupe state
+ */
+export interface MailQueueSnapshot {
+  queue: QueuedMail[];
+  /**
+   * Dequeued mail whose send hadn't finished; missing in older snapshots
+   */
+  inFlight?: QueuedMail[];
+  recentHashes: Array<[hash: string, timestamp: number]>;
+  /**
+   * Missing in snapshots written before dead letters existed
+   */
+  deadLetters?: DeadLetter[];
+}
+
+/**
+ * Storage for queued mail, modelled on AuthStorage
+ */
+export interface MailQueueStorage {
+  loadQueue(): Promise<MailQueueSnapshot | null>;
+  saveQueue(snapshot: MailQueueSnapshot): Promise<void>;
+  clearQueue(): Promise<void>;
+}
+
+/**
+ * Keeps the snapshot in memory - survives queue instances, not restarts
+ */
+export class InMemoryMailQueueStorage implements MailQueueStorage {
+  private snapshot: MailQueueSnapshot | null = null;
+
+  async loadQueue(): Promise<MailQueueSnapshot | null> {
+    return this.snapshot ? cloneSnapshot(this.snapshot) : null;
+  }
+
+  async saveQueue(snapshot: MailQueueSnapshot): Promise<void> {
+    this.snapshot = cloneSnapshot(snapshot);
+  }
+
+  async clearQueue(): Promise<void> {
+    this.snapshot = null;
+  }
+}
+
+/**
+ * Stores the snapshot as a JSON file (Node.js only)
+ * Writes go to a temporary file that is renamed over the target, so a crash
+ * mid-write never leaves a truncated queue behind
+ */
+export class JsonFileMailQueueStorage implements MailQueueStorage {
+  constructor(private filePath: string) {}
+
+  async loadQueue(): Promise<MailQueueSnapshot | null> {
+    const fs = await import('node:fs/promises');
+    try {
+      const content = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(content) as MailQueueSnapshot;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async saveQueue(snapshot: MailQueueSnapshot): Promise<void> {
+    const fs = await import('node:fs/promises');
+    const path = await import('node:path');
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.${process.pid}.${Date.now()}.tmp`;
+    try {
+      await fs.writeFile(tempPath, JSON.stringify(snapshot), 'utf8');
+      await fs.rename(tempPath, this.filePath);
+    } catch (error) {
+      await fs.rm(tempPath, { force: true });
+      throw error;
+    }
+  }
+
+  async clearQueue(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    await fs.rm(this.filePath, { force: true });
+  }
+}
+
+/**
+ * Stores the snapshot in IndexedDB (browsers)
+ */
+export class IndexedDbMailQueueStorage implements MailQueueStorage {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+
+  constructor(
+    private dbName = 'mind-swarm',
+    private storeName = 'mail-queue',
+    private key = 'default'
+  ) {}
+
+  async loadQueue(): Promise<MailQueueSnapshot | null> {
+    const result = await this.run<MailQueueSnapshot | undefined>('readonly', store => store.get(this.key));
+    return result ?? null;
+  }
+
+  async saveQueue(snapshot: MailQueueSnapshot): Promise<void> {
+    await this.run('readwrite', store => store.put(snapshot, this.key));
+  }
+
+  async clearQueue(): Promise<void> {
+    await this.run('readwrite', store => store.delete(this.key));
+  }
+
+  /**
+   * Run a single request in its own transaction
+   */
+  private async run<T>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+    const db = await this.open();
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(this.storeName, mode);
+      const req = request(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(req.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  /**
+   * Open the database once, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        if (typeof indexedDB === 'undefined') {
+          reject(new Error('IndexedDB is not available in this environment'));
+          return;
+        }
+
+        const request = indexedDB.open(this.dbName, 1);
+        request.onupgradeneeded = () => {
+          if (!request.result.objectStoreNames.contains(this.storeName)) {
+            request.result.createObjectStore(this.storeName);
+          }
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).catch(error => {
+        // Allow a later call to retry
+        this.dbPromise = null;
+        throw error;
+      });
+    }
+    return this.dbPromise;
+  }
+}
+
+/**
+ * Deep copy a snapshot so callers can't mutate stored state
+ */
+function cloneSnapshot(snapshot: MailQueueSnapshot): MailQueueSnapshot {
+  const clone: MailQueueSnapshot = {
+    queue: snapshot.queue.map(cloneMail),
+    recentHashes: snapshot.recentHashes.map(([hash, timestamp]) => [hash, timestamp])
+  };
+  if (snapshot.inFlight) {
+    clone.inFlight = snapshot.inFlight.map(cloneMail);
+  }
+  if (snapshot.deadLetters) {
+    clone.deadLetters = snapshot.deadLetters.map(letter => ({ ...letter, mail: cloneMail(letter.mail) }));
+  }
+  return clone;
+}
+
+/**
+ * Deep copy a queued mail, including its headers and attempt history
+ */
+function cloneMail(mail: QueuedMail): QueuedMail {
+  const clone: QueuedMail = { ...mail, headers: mail.headers ? { ...mail.headers } : undefined };
+  if (mail.history) {
+    clone.history = mail.history.map(attempt => ({ ...attempt }));
+  }
+  return clone;
+}
@@ -0,0 +1,76 @@
+/**
+ * Tracks received mail so a reconnecting client can resume where it left off
+ */
+
+import type { Mail } from '../types/mail.js';
+
+/**
+ * Last mail the client saw, sent in the identity handshake on reconnect
+ */
+export interface ResumePoint {
+  lastMessageId?: string;
+  lastSequence?: number;
+}
+
+/**
+ * Records delivered Message-IDs for duplicate suppression during replay
+ */
+export class MailResumeTracker {
+  private seen = new Set<string>();
+  private lastMessageId: string | undefined;
+  private lastSequence: number | undefined;
+
+  constructor(private maxTracked = 1000) {}
+
+  /**
+   * Record inbound mail
+   * Returns false if mail with this Message-ID was already delivered
+   */
+  accept(mail: Mail, sequence?: number): boolean {
+    if (mail.message_id) {
+      if (this.seen.has(mail.message_id)) {
+        return false;
+      }
+
+      this.seen.add(mail.message_id);
+      // Sets iterate in insertion order, so the first entry is the oldest
+      if (this.seen.size > this.maxTracked) {
+        this.seen.delete(this.seen.values().next().value!);
+      }
+      this.lastMessageId = mail.message_id;
+    }
+
+    if (sequence !== undefined && (this.lastSequence === undefined || sequence > this.lastSequence)) {
+      this.lastSequence = sequence;
+    }
+
+    return true;
+  }
+
+  /**
+   * Get the resume point, or null before any mail has been received
+   */
+  getResumePoint(): ResumePoint | null {
+    if (this.lastMessageId === undefined && this.lastSequence === undefined) {
+      return null;
+    }
+
+    const point: ResumePoint = {};
+    if (this.lastMessageId !== undefined) {
+      point.lastMessageId = this.lastMessageId;
+    }
+    if (this.lastSequence !== undefined) {
+      point.lastSequence = this.lastSequence;
+    }
+    return point;
+  }
+
+  /**
+   * Forget everything, e.g. when switching users
+   */
+  reset(): void {
+    this.seen.clear();
+    this.lastMessageId = undefined;
+    this.lastSequence = undefined;
+  }
+}
@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type { WebSocket } from 'ws';
+import { MailTransportAdapter } from './MailTransportAdapter.js';
+import type { MailTransportConfig } from './MailTransportAdapter.js';
+
+/**
+ * Mail server stand-in that records every frame the client sends
+ */
+class FakeMailServer {
+  readonly frames: any[] = [];
+  private server: WebSocketServer;
+  private sockets = new Set<WebSocket>();
+
+  constructor() {
+    this.server = new WebSocketServer({ port: 0 });
+    this.server.on('connection', socket => {
+      this.sockets.add(socket);
+      socket.on('message', data => this.frames.push(JSON.parse(data.toString())));
+      socket.on('close', () => this.sockets.delete(socket));
+    });
+  }
+
+  get url(): string {
+    const address = this.server.address();
+    return `ws://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+  }
+
+  /**
+   * Frames of one type, in the order they arrived
+   */
+  framesOfType(type: string): any[] {
+    return this.frames.filter(frame => frame.type === type);
+  }
+
+  /**
+   * Push a frame to every connected client
+   */
+  send(frame: Record<string, unknown>): void {
+    this.sockets.forEach(socket => socket.send(JSON.stringify(frame)));
+  }
+
+  /**
+   * Drop every client connection as a network failure would
+   */
+  dropConnections(): void {
+    this.sockets.forEach(socket => socket.terminate());
+  }
+
+  /**
+   * Wait until the client has sent a number of frames of a type
+   */
+  async waitForFrames(type: string, count = 1): Promise<any[]> {
+    await waitFor(() => this.framesOfType(type).length >= count);
+    return this.framesOfType(type);
+  }
+
+  close(): Promise<void> {
+    this.sockets.forEach(socket => socket.terminate());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+/**
+ * Poll until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('MailTransportAdapter', () => {
+  let server: FakeMailServer;
+  let transport: MailTransportAdapter;
+
+  beforeEach(() => {
+    server = new FakeMailServer();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await transport?.disconnect();
+    await server.close();
+  });
+
+  function createTransport(config: Partial<MailTransportConfig> = {}): MailTransportAdapter {
+    transport = new MailTransportAdapter({ url: server.url, reconnect: false, ...config });
+    return transport;
+  }
+
+  describe('outbox', () => {
+    it('queues mail while disconnected and flushes it on connect', async () => {
+      createTransport({ outbox: true });
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Queued', 'body');
+
+      await transport.connect();
+      const [frame] = await server.waitForFrames('mail');
+      expect(frame.mail.headers.Subject).toBe('Queued');
+
+      server.send({ type: 'mail_sent', message_id: frame.mail.headers['Message-ID'], status: 'sent' });
+      await expect(sent).resolves.toMatchObject({ subject: 'Queued', delivery: { status: 'sent' } });
+    });
+
+    it('retries after an ack timeout while the connection stays up', async () => {
+      createTransport({ outbox: true, ackTimeout: 50, reconnectInterval: 10 });
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Retried', 'body');
+      await transport.connect();
+
+      const frames = await server.waitForFrames('mail', 2);
+      expect(frames[1].mail.headers['Message-ID']).toBe(frames[0].mail.headers['Message-ID']);
+
+      server.send({ type: 'mail_sent', message_id: frames[1].mail.headers['Message-ID'], status: 'sent' });
+      await expect(sent).resolves.toMatchObject({ subject: 'Retried' });
+    });
+
+    it('keeps mail interrupted by a disconnect and resends it after reconnecting', async () => {
+      createTransport({ outbox: true, reconnect: true, reconnectInterval: 10 });
+      await transport.connect();
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Interrupted', 'body');
+      const [first] = await server.waitForFrames('mail');
+
+      server.dropConnections();
+      const frames = await server.waitForFrames('mail', 2);
+      expect(frames[1].mail.headers['Message-ID']).toBe(first.mail.headers['Message-ID']);
+
+      server.send({ type: 'mail_sent', message_id: frames[1].mail.headers['Message-ID'], status: 'sent' });
+      await expect(sent).resolves.toMatchObject({ subject: 'Interrupted' });
+    });
+
+    it("doesn't send mail whose sendMailTo timeout already fired", async () => {
+      createTransport({ outbox: true });
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Too late', 'body', { timeout: 20 });
+      await expect(sent).rejects.toThrow('Mail timeout: Too late');
+
+      await transport.connect();
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(server.framesOfType('mail')).toHaveLength(0);
+      expect(transport.getOutbox()!.isEmpty()).toBe(true);
+    });
+
+    it("doesn't keep the process alive with the queue's cleanup timer", () => {
+      createTransport({ outbox: true });
+      const interval = (transport.getOutbox() as any).cleanupInterval;
+      expect(interval.hasRef()).toBe(false);
+    });
+  });
+
+  describe('delivery acknowledgements', () => {
+    it('matches acks to in-flight sends by Message-ID', async () => {
+      createTransport();
+      await transport.connect();
+
+      const first = transport.sendMailTo('agent@mindswarm.ai', 'First', 'body', { messageId: '<first@test>' });
+      const second = transport.sendMailTo('agent@mindswarm.ai', 'Second', 'body', { messageId: '<second@test>' });
+      await server.waitForFrames('mail', 2);
+
+      server.send({ type: 'mail_sent', message_id: '<second@test>', status: 'sent' });
+      await expect(second).resolves.toMatchObject({ subject: 'Second' });
+
+      server.send({ type: 'mail_sent', message_id: '<first@test>', status: { status: 'failed', error: 'No such agent' } });
+      await expect(first).rejects.toMatchObject({ code: 'rejected' });
+    });
+
+    it('clears the send timeout once the mail is confirmed', async () => {
+      createTransport();
+      await transport.connect();
+      const setTimer = vi.spyOn(globalThis, 'setTimeout');
+      const clearTimer = vi.spyOn(globalThis, 'clearTimeout');
+
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Timed', 'body', { messageId: '<timed@test>', timeout: 123456 });
+      await server.waitForFrames('mail');
+      server.send({ type: 'mail_sent', message_id: '<timed@test>', status: 'sent' });
+      await sent;
+
+      const index = setTimer.mock.calls.findIndex(([, delay]) => delay === 123456);
+      expect(index).toBeGreaterThanOrEqual(0);
+      expect(clearTimer).toHaveBeenCalledWith(setTimer.mock.results[index].value);
+    });
+
+    it('ignores acks without a Message-ID', async () => {
+      createTransport({ ackTimeout: 100 });
+      await transport.connect();
+
+      const sent = transport.sendMailTo('agent@mindswarm.ai', 'Unconfirmed', 'body');
+      await server.waitForFrames('mail');
+      server.send({ type: 'mail_sent', status: 'sent' });
+
+      await expect(sent).rejects.toMatchObject({ code: 'timeout' });
+    });
+  });
+
+  describe('session resume', () => {
+    it('sends the identity frame once per connection, with the resume point after a reconnect', async () => {
+      createTransport({ reconnect: true, reconnectInterval: 10 });
+      const received: string[] = [];
+      transport.onMail(mail => received.push(mail.subject));
+      await transport.connect();
+      await server.waitForFrames('set_identity');
+
+      server.send({ type: 'mail', mail: { headers: { 'Message-ID': '<m1@test>', Subject: 'Hello' }, body: '' } });
+      await waitFor(() => received.length === 1);
+
+      server.dropConnections();
+      const identities = await server.waitForFrames('set_identity', 2);
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(server.framesOfType('set_identity')).toHaveLength(2);
+      expect(identities[0].resume).toBeUndefined();
+      expect(identities[1].resume).toMatchObject({ last_message_id: '<m1@test>' });
+    });
+  });
+});
@@ -4,8 +4,29 @@
 
 import { WebSocketTransport } from './WebSocketTransport.js';
 import type { WebSocketTransportConfig } from './WebSocketTransport.js';
-import { TransportEvent } from './types.js';
-import type { Mail, MailTransport as IMailTransport } from './types.js';
+import { MailQueue } from './MailQueue.js';
+import type { MailQueueConfig, QueuedMail } from './MailQueue.js';
+import { MailDeliveryError } from './errors.js';
+import { MailResumeTracker } from './MailResumeTracker.js';
+import {
+  buildIdentityFrame,
+  buildMailFrame,
+  getFrameSequence,
+  getMailSentFailure,
+  normalizeInboundMail,
+  parseMailSentStatus
+} from './mailProtocol.js';
+import { MailTransportEvent, TransportEvent } from './types.js';
+import type {
+  IdentityConfirmedEvent,
+  Mail,
+  ResyncRequiredEvent,
+  MailTransport as IMailTransport,
+  MailTransportEventMap,
+  SendMailOptions
+} from './types.js';
+import type { SentMail } from '../types/mail.js';
+import { buildReferences } from '../utils/threading.js';
 
 /**
  * Mail-specific WebSocket transport configuration
@@ -13,20 +34,63 @@ import type { Mail, MailTransport as IMailTransport } from './types.js';
 export interface MailTransportConfig extends WebSocketTransportConfig {
   defaultFrom?: string;
   defaultTimeout?: number;
+  /**
+   * Queue mail sent while disconnected and flush it on reconnect
+   */
+  outbox?: boolean | MailQueueConfig;
+  /**
+   * How long sendMail waits for the server's mail_sent confirmation
+   */
+  ackTimeout?: number;
+}
+
+/**
+ * Mail waiting in the outbox for delivery
+ */
+interface OutboxEntry {
+  mail: Mail;
+  resolve: (mail: SentMail) => void;
+  reject: (error: Error) => void;
+  /**
+   * The caller gave up; don't send or retry the mail again
+   */
+  cancelled?: boolean;
+}
+
+/**
+ * Sent mail waiting for its mail_sent confirmation
+ */
+interface PendingAck {
+  mail: Mail;
+  resolve: (mail: SentMail) => void;
+  reject: (error: Error) => void;
+  timeout: ReturnType<typeof setTimeout>;
 }
 
 /**
  * Adapter to convert WebSocketTransport to Mail-based interface
  */
-export class MailTransportAdapter extends WebSocketTransport implements IMailTransport {
+export class MailTransportAdapter extends WebSocketTransport<MailTransportEventMap> implements IMailTransport {
   private mailHandlers = new Set<(mail: Mail) => void>();
   private defaultFrom: string;
   private userEmail?: string;
   private uiAgentEmail?: string;
+  private outbox: MailQueue | null = null;
+  private outboxEntries = new Map<string, OutboxEntry>();
+  private flushingOutbox = false;
+  private outboxRetryTimer: ReturnType<typeof setTimeout> | null = null;
+  private pendingAcks = new Map<string, PendingAck>();
+  private ackTimeout: number;
+  private resume = new MailResumeTracker();
 
   constructor(config: MailTransportConfig) {
     super(config);
     this.defaultFrom = config.defaultFrom || 'user@mindswarm.ai';
+    this.ackTimeout = config.ackTimeout ?? this.config.timeout ?? 30000;
+
+    if (config.outbox) {
+      this.outbox = new MailQueue(config.outbox === true ? {} : config.outbox);
+    }
     
     // Listen for mail messages
     this.on(TransportEvent.MESSAGE, this.handleMailMessage.bind(this));
@@ -36,41 +100,302 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
       this.log(`MailTransportAdapter: Connected event received. User email: ${this.userEmail}`);
       // Always send identity - server will respond with correct email
       this.sendIdentity();
+      this.flushOutbox();
     });
+
+    // Unconfirmed mail can no longer be acknowledged on this connection
+    this.on(TransportEvent.DISCONNECTED, () => {
+      this.clearOutboxRetry();
+      this.rejectPendingAcks();
+    });
+  }
+
+  /**
+   * Send mail and wait for the server to confirm it with mail_sent
+   * In outbox mode, all mail goes through the outbox so a send that is
+   * interrupted is kept for resend; the promise settles once the mail is
+   * delivered or finally dropped
+   */
+  async sendMail(mail: Mail): Promise<SentMail> {
+    if (this.outbox) {
+      return this.enqueueOutbox(mail);
+    }
+
+    return this.deliverMail(mail);
   }
 
   /**
-   * Send mail and wait for response
+   * Write mail to the socket and wait for its acknowledgement
    */
-  async sendMail(mail: Mail): Promise<Mail> {
+  private async deliverMail(mail: Mail): Promise<SentMail> {
     // Debug log the incoming mail
     this.log(`sendMail called with subject: "${mail.subject}", to: ${mail.to_address}`);
-    
-    // Server expects this exact format
-    const message = {
-      type: 'mail',
-      mail: {
-        headers: {
-          'To': mail.to_address,
-          'From': mail.from_address,
-          'Subject': mail.subject,
-          'Message-ID': mail.message_id || this.generateId()
-        },
-        body: mail.body
+
+    const messageId = mail.message_id || this.generateId();
+    const message = buildMailFrame(mail, messageId);
+
+    if (!this.isSocketOpen()) {
+      throw new Error('WebSocket not connected');
+    }
+
+    const ack = new Promise<SentMail>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingAcks.delete(messageId);
+        reject(new MailDeliveryError(
+          'timeout',
+          messageId,
+          `No delivery confirmation for "${mail.subject}" within ${this.ackTimeout}ms`
+        ));
+      }, this.ackTimeout);
+
+      this.pendingAcks.set(messageId, {
+        mail: { ...mail, message_id: messageId },
+        resolve,
+        reject,
+        timeout
+      });
+    });
+
+    // Send directly via WebSocket
+    this.log(`Sending mail message: ${JSON.stringify(message)}`);
+    try {
+      this.sendFrame(message);
+    } catch (error) {
+      this.settleAck(messageId);
+      throw error;
+    }
+
+    return ack;
+  }
+
+  /**
+   * Resolve or reject a pending acknowledgement from a mail_sent message
+   */
+  private handleMailSent(message: any): void {
+    const status = parseMailSentStatus(message);
+
+    const messageId: string | undefined = message.message_id;
+    if (!messageId) {
+      // With several sends in flight there's no telling which one this confirms
+      this.log(`Ignoring mail sent confirmation without a Message-ID (${this.pendingAcks.size} pending)`);
+      return;
+    }
+
+    const pending = this.settleAck(messageId);
+    if (!pending) {
+      this.log(`Mail sent confirmation for unknown message: ${messageId}`);
+      return;
+    }
+
+    const failure = getMailSentFailure(message, status);
+    if (failure) {
+      pending.reject(new MailDeliveryError(
+        'rejected',
+        messageId,
+        `Server rejected "${pending.mail.subject}": ${failure}`,
+        status.status
+      ));
+      return;
+    }
+
+    const sent: SentMail = {
+      ...pending.mail,
+      delivery: {
+        message_id: messageId,
+        status: status.status
       }
     };
+    if (status.message_id) {
+      sent.delivery.server_message_id = status.message_id;
+    }
 
-    // Send directly via WebSocket
-    const ws = (this as any).ws;
-    if (ws && ws.readyState === 1) {
-      this.log(`Sending mail message: ${JSON.stringify(message)}`);
-      ws.send(JSON.stringify(message));
-    } else {
-      throw new Error('WebSocket not connected');
+    this.log(`Mail sent confirmation: ${status.status} (${messageId})`);
+    pending.resolve(sent);
+    this.emit(MailTransportEvent.MAIL_SENT, sent);
+  }
+
+  /**
+   * Remove a pending acknowledgement and clear its timer
+   */
+  private settleAck(messageId: string): PendingAck | undefined {
+    const pending = this.pendingAcks.get(messageId);
+    if (pending) {
+      clearTimeout(pending.timeout);
+      this.pendingAcks.delete(messageId);
     }
-    
-    // For now, return the original mail (we'll handle responses later)
-    return mail;
+    return pending;
+  }
+
+  /**
+   * Reject every unconfirmed mail after the connection drops
+   */
+  private rejectPendingAcks(): void {
+    for (const [messageId, pending] of this.pendingAcks) {
+      clearTimeout(pending.timeout);
+      pending.reject(new MailDeliveryError(
+        'disconnected',
+        messageId,
+        `Connection lost before "${pending.mail.subject}" was confirmed`
+      ));
+    }
+    this.pendingAcks.clear();
+  }
+
+  /**
+   * Add mail to the outbox and flush if the socket is open
+   */
+  private enqueueOutbox(mail: Mail): Promise<SentMail> {
+    const outbox = this.outbox!;
+    const queued: Mail = { ...mail, message_id: mail.message_id || this.generateId() };
+    const id = queued.message_id!;
+
+    return new Promise<SentMail>((resolve, reject) => {
+      const duplicate = new Error(`Duplicate mail rejected by outbox: ${queued.subject}`);
+      if (this.outboxEntries.has(id)) {
+        reject(duplicate);
+        return;
+      }
+
+      // Registered first so a flush already running finds its caller
+      const entry: OutboxEntry = { mail: queued, resolve, reject };
+      this.outboxEntries.set(id, entry);
+      outbox.enqueueWithIdAsync(id, queued.to_address, queued.subject, queued.body, queued.headers).then(added => {
+        if (entry.cancelled) {
+          outbox.remove(id);
+          return;
+        }
+        if (!added) {
+          this.outboxEntries.delete(id);
+          reject(duplicate);
+          return;
+        }
+
+        this.log(`Mail queued in outbox: ${queued.subject} (${outbox.size()} pending)`);
+        if (this.isSocketOpen()) {
+          this.flushOutbox();
+        }
+      }, error => {
+        this.outboxEntries.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  /**
+   * Deliver queued mail in order while the socket stays open
+   */
+  private async flushOutbox(): Promise<void> {
+    if (!this.outbox || this.flushingOutbox) {
+      return;
+    }
+
+    this.flushingOutbox = true;
+    try {
+      while (this.isSocketOpen()) {
+        const queued = this.outbox.dequeue();
+        if (!queued) {
+          break;
+        }
+
+        // Replayed or rehydrated mail has no caller waiting on it
+        const entry = this.outboxEntries.get(queued.id);
+        const mail = entry?.mail ?? this.mailFromOutbox(queued);
+
+        try {
+          const delivered = await this.deliverMail(mail);
+          this.outbox.complete(queued.id);
+          this.outboxEntries.delete(queued.id);
+          entry?.resolve(delivered);
+        } catch (error) {
+          // Its caller timed out and was told it failed
+          if (entry?.cancelled) {
+            continue;
+          }
+
+          // The server said no - retrying the same mail won't change that
+          if (error instanceof MailDeliveryError && error.code === 'rejected') {
+            this.outbox.fail(queued, error);
+            this.outboxEntries.delete(queued.id);
+            entry?.reject(error);
+            continue;
+          }
+
+          if (!this.outbox.requeue(queued, error)) {
+            this.outboxEntries.delete(queued.id);
+            entry?.reject(error instanceof Error ? error : new Error(String(error)));
+          }
+          // Leave the rest for the next CONNECTED event, or retry later
+          // if the connection survived, e.g. after an ack timeout
+          if (this.isSocketOpen()) {
+            this.scheduleOutboxRetry(queued.attempts);
+          }
+          break;
+        }
+      }
+    } finally {
+      this.flushingOutbox = false;
+    }
+  }
+
+  /**
+   * Take mail out of the outbox after its caller stopped waiting
+   * Mail already written to the socket can't be recalled, but isn't retried
+   */
+  private cancelOutbox(id: string, reason: Error): void {
+    const entry = this.outboxEntries.get(id);
+    if (!entry) {
+      return;
+    }
+    entry.cancelled = true;
+    this.outboxEntries.delete(id);
+    this.outbox?.remove(id);
+    entry.reject(reason);
+  }
+
+  /**
+   * Flush the outbox again after the reconnect strategy's delay
+   */
+  private scheduleOutboxRetry(attempt: number): void {
+    this.clearOutboxRetry();
+    const delay = this.getReconnectStrategy().nextDelay(attempt) ?? this.config.reconnectInterval ?? 5000;
+
+    this.log(`Retrying outbox in ${delay}ms`);
+    this.outboxRetryTimer = setTimeout(() => {
+      this.outboxRetryTimer = null;
+      this.flushOutbox();
+    }, delay);
+  }
+
+  /**
+   * Cancel a scheduled outbox retry
+   */
+  private clearOutboxRetry(): void {
+    if (this.outboxRetryTimer) {
+      clearTimeout(this.outboxRetryTimer);
+      this.outboxRetryTimer = null;
+    }
+  }
+
+  /**
+   * Rebuild the mail for an outbox message nobody is waiting on
+   */
+  private mailFromOutbox(queued: QueuedMail): Mail {
+    return {
+      message_id: queued.id,
+      from_address: this.defaultFrom,
+      to_address: queued.to,
+      subject: queued.subject,
+      body: queued.body,
+      timestamp: new Date(queued.timestamp).toISOString(),
+      headers: { ...queued.headers }
+    };
+  }
+
+  /**
+   * Get the outbox queue, or null when outbox mode is off
+   */
+  getOutbox(): MailQueue | null {
+    return this.outbox;
   }
 
   /**
@@ -91,6 +416,10 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
    * Set user email
    */
   setUserEmail(email: string): void {
+    // Another user's resume point means nothing to the server
+    if (this.userEmail && this.userEmail !== email) {
+      this.resume.reset();
+    }
     this.userEmail = email;
     this.defaultFrom = email;
   }
@@ -122,27 +451,24 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
   private handleMailMessage(message: any): void {
     this.log(`Received message type: ${message.type}`);
     
-    // Check if this is a mail message
-    if (message.type === 'mail' && message.mail) {
-      const mail = message.mail as Mail;
-      this.emitMail(mail);
-    } else if (message.type === 'mail_notification') {
-      // Handle mail notification - convert to Mail format
-      const mail: Mail = {
-        message_id: message.message_id,
-        from_address: message.from,
-        to_address: message.to,
-        subject: message.subject,
-        body: message.body,
-        timestamp: message.timestamp || new Date().toISOString(),
-        in_reply_to: message.in_reply_to,
-        headers: {}
-      };
-      this.log(`Emitting mail notification from ${mail.from_address}: ${mail.subject}`);
+    const mail = normalizeInboundMail(message);
+    if (mail) {
+      // Replayed after a resume, or pushed twice
+      if (!this.resume.accept(mail, getFrameSequence(message))) {
+        this.log(`Duplicate mail suppressed: ${mail.message_id}`);
+        return;
+      }
+      this.log(`Emitting mail from ${mail.from_address}: ${mail.subject}`);
       this.emitMail(mail);
+    } else if (message.type === 'resync_required') {
+      const event: ResyncRequiredEvent = { resumePoint: this.resume.getResumePoint() };
+      if (message.reason) {
+        event.reason = String(message.reason);
+      }
+      this.logError(`Server cannot resume session: ${event.reason || 'no reason given'}`);
+      this.emit(MailTransportEvent.RESYNC_REQUIRED, event);
     } else if (message.type === 'mail_sent') {
-      // Handle mail sent confirmation - just log it
-      this.log(`Mail sent confirmation: ${message.status?.status}`);
+      this.handleMailSent(message);
     } else if (message.type === 'identity_confirmed') {
       // Update user identity
       if (message.email_address) {
@@ -154,6 +480,7 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
         this.uiAgentEmail = message.ui_agent_email;
         this.log(`UI Agent: ${this.uiAgentEmail}`);
       }
+      this.emitIdentityConfirmed();
     } else {
       this.log(`Unhandled message: ${JSON.stringify(message).substring(0, 200)}`);
     }
@@ -170,28 +497,36 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
         this.logError('Mail handler error:', error);
       }
     }
+    this.emit(MailTransportEvent.MAIL, mail);
+  }
+
+  /**
+   * Emit the confirmed identity
+   */
+  private emitIdentityConfirmed(): void {
+    const identity: IdentityConfirmedEvent = {};
+    if (this.userEmail) {
+      identity.userEmail = this.userEmail;
+    }
+    if (this.uiAgentEmail) {
+      identity.uiAgentEmail = this.uiAgentEmail;
+    }
+    this.emit(MailTransportEvent.IDENTITY_CONFIRMED, identity);
   }
 
   /**
    * Send identity message
    */
   private sendIdentity(): void {
-    // Always send identity message, even with empty email
-    // The server will respond with the correct email for authenticated users
-    const message = {
-      type: 'set_identity',
-      email_address: this.userEmail || ''
-    };
+    const message = buildIdentityFrame(this.userEmail, this.resume.getResumePoint());
 
     this.log(`Sending identity message: ${JSON.stringify(message)}`);
     
-    // Access the underlying WebSocket if available
-    const ws = (this as any).ws;
-    if (ws && ws.readyState === 1) { // OPEN
-      ws.send(JSON.stringify(message));
+    if (this.isSocketOpen()) {
+      this.sendFrame(message);
       this.log('Identity message sent successfully');
     } else {
-      this.logError(`WebSocket not available or not open. State: ${ws?.readyState}`);
+      this.logError(`WebSocket not available or not open. State: ${this.ws?.readyState}`);
     }
   }
 
@@ -203,14 +538,10 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
     to: string,
     subject: string,
     body: string,
-    options?: {
-      inReplyTo?: string;
-      timeout?: number;
-      headers?: Record<string, string>;
-    }
-  ): Promise<Mail> {
+    options?: SendMailOptions
+  ): Promise<SentMail> {
     const mail: Mail = {
-      message_id: this.generateId(),
+      message_id: options?.messageId || this.generateId(),
       from_address: this.defaultFrom,
       to_address: to,
       subject,
@@ -221,17 +552,28 @@ export class MailTransportAdapter extends WebSocketTransport implements IMailTra
     
     if (options?.inReplyTo) {
       mail.in_reply_to = options.inReplyTo;
+      mail.references = buildReferences(options.references, options.inReplyTo);
+    } else if (options?.references?.length) {
+      mail.references = [...options.references];
     }
 
     // Add timeout handling if specified
     if (options?.timeout) {
-      const timeoutPromise = this.createTimeout(options.timeout);
-      return Promise.race([
-        this.sendMail(mail),
-        timeoutPromise.then(() => {
-          throw new Error(`Mail timeout: ${subject}`);
-        })
-      ]);
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeoutPromise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error(`Mail timeout: ${subject}`);
+          // The caller is told it failed, so it mustn't go out later
+          this.cancelOutbox(mail.message_id!, error);
+          reject(error);
+        }, options.timeout);
+      });
+      try {
+        return await Promise.race([this.sendMail(mail), timeoutPromise]);
+      } finally {
+        // Don't leave a timer running for every request
+        clearTimeout(timer);
+      }
     }
 
     return this.sendMail(mail);
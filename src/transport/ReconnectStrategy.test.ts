@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import {
+  ExponentialBackoffStrategy,
+  FixedReconnectStrategy,
+  RetryForeverStrategy
+} from './ReconnectStrategy.js';
+
+/**
+ * Delays for attempts 1..count
+ */
+function delays(strategy: { nextDelay(attempt: number): number | null }, count: number): Array<number | null> {
+  return Array.from({ length: count }, (_, i) => strategy.nextDelay(i + 1));
+}
+
+describe('FixedReconnectStrategy', () => {
+  it('waits the same interval until maxAttempts, then gives up', () => {
+    const strategy = new FixedReconnectStrategy({ interval: 250, maxAttempts: 3 });
+
+    expect(delays(strategy, 4)).toEqual([250, 250, 250, null]);
+  });
+});
+
+describe('ExponentialBackoffStrategy', () => {
+  it('doubles the ceiling per attempt up to maxDelay', () => {
+    const strategy = new ExponentialBackoffStrategy({ baseDelay: 100, maxDelay: 1000, random: () => 0.9999 });
+
+    expect(delays(strategy, 6)).toEqual([99, 199, 399, 799, 999, 999]);
+  });
+
+  it('applies full jitter below the ceiling', () => {
+    const samples = [0, 0.5, 0.25];
+    const strategy = new ExponentialBackoffStrategy({ baseDelay: 100, random: () => samples.shift()! });
+
+    expect(delays(strategy, 3)).toEqual([0, 100, 100]);
+  });
+
+  it('gives up after maxAttempts', () => {
+    const strategy = new ExponentialBackoffStrategy({ maxAttempts: 2, random: () => 0.5 });
+
+    expect(strategy.nextDelay(2)).not.toBeNull();
+    expect(strategy.nextDelay(3)).toBeNull();
+  });
+});
+
+describe('RetryForeverStrategy', () => {
+  it('never gives up and stays capped without overflowing', () => {
+    const strategy = new RetryForeverStrategy({ baseDelay: 1000, maxDelay: 60000, jitter: false });
+
+    expect(delays(strategy, 3)).toEqual([1000, 2000, 4000]);
+    expect(strategy.nextDelay(1000)).toBe(60000);
+  });
+
+  it('jitters the capped delay by default', () => {
+    const strategy = new RetryForeverStrategy({ baseDelay: 1000, maxDelay: 60000, random: () => 0.5 });
+
+    expect(strategy.nextDelay(3)).toBe(2000);
+    expect(strategy.nextDelay(1000)).toBe(30000);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Reconnect strategies for transports
+ */
+
+/**
+ * Decides how long to wait before each reconnection attempt
+ */
+export interface ReconnectStrategy {
+  /**
+   * Delay in ms before the given attempt (1-based), or null to give up
+   */
+  nextDelay(attempt: number): number | null;
+}
+
+export interface FixedReconnectOptions {
+  interval?: number;
+  maxAttempts?: number;
+}
+
+export interface ExponentialBackoffOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+  maxAttempts?: number;
+  /**
+   * Random source in [0, 1), override for deterministic tests
+   */
+  random?: () => number;
+}
+
+export interface RetryForeverOptions {
+  baseDelay?: number;
+  maxDelay?: number;
+  /**
+   * Apply full jitter to the capped delay
+   */
+  jitter?: boolean;
+  random?: () => number;
+}
+
+/**
+ * Wait the same interval before every attempt, up to a maximum
+ */
+export class FixedReconnectStrategy implements ReconnectStrategy {
+  private interval: number;
+  private maxAttempts: number;
+
+  constructor(options: FixedReconnectOptions = {}) {
+    this.interval = options.interval ?? 5000;
+    this.maxAttempts = options.maxAttempts ?? 5;
+  }
+
+  nextDelay(attempt: number): number | null {
+    if (attempt > this.maxAttempts) {
+      return null;
+    }
+    return this.interval;
+  }
+}
+
+/**
+ * Exponential backoff with full jitter: a random delay in
+ * [0, min(maxDelay, baseDelay * 2^(attempt - 1))]
+ */
+export class ExponentialBackoffStrategy implements ReconnectStrategy {
+  private baseDelay: number;
+  private maxDelay: number;
+  private maxAttempts: number;
+  private random: () => number;
+
+  constructor(options: ExponentialBackoffOptions = {}) {
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 30000;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.random = options.random ?? Math.random;
+  }
+
+  nextDelay(attempt: number): number | null {
+    if (attempt > this.maxAttempts) {
+      return null;
+    }
+    const ceiling = cappedExponential(this.baseDelay, this.maxDelay, attempt);
+    return Math.floor(this.random() * ceiling);
+  }
+}
+
+/**
+ * Never give up; grow the delay exponentially until it reaches maxDelay
+ */
+export class RetryForeverStrategy implements ReconnectStrategy {
+  private baseDelay: number;
+  private maxDelay: number;
+  private jitter: boolean;
+  private random: () => number;
+
+  constructor(options: RetryForeverOptions = {}) {
+    this.baseDelay = options.baseDelay ?? 1000;
+    this.maxDelay = options.maxDelay ?? 60000;
+    this.jitter = options.jitter ?? true;
+    this.random = options.random ?? Math.random;
+  }
+
+  nextDelay(attempt: number): number | null {
+    const ceiling = cappedExponential(this.baseDelay, this.maxDelay, attempt);
+    return this.jitter ? Math.floor(this.random() * ceiling) : ceiling;
+  }
+}
+
+/**
+ * Compute min(maxDelay, baseDelay * 2^(attempt - 1)) without overflowing
+ */
+function cappedExponential(baseDelay: number, maxDelay: number, attempt: number): number {
+  const exponent = Math.min(Math.max(attempt - 1, 0), 30);
+  return Math.min(maxDelay, baseDelay * Math.pow(2, exponent));
+}
@@ -0,0 +1,164 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import type { ServerOptions, WebSocket } from 'ws';
+import { WebSocketTransport } from './WebSocketTransport.js';
+import type { WebSocketTransportConfig } from './WebSocketTransport.js';
+import { TransportEvent, TransportState } from './types.js';
+import type { ReconnectFailedEvent, ReconnectingEvent, StaleConnectionEvent } from './types.js';
+
+/**
+ * Poll until a condition holds
+ */
+async function waitFor(condition: () => boolean, timeout = 2000): Promise<void> {
+  const started = Date.now();
+  while (!condition()) {
+    if (Date.now() - started > timeout) {
+      throw new Error('Condition not met in time');
+    }
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+}
+
+describe('WebSocketTransport', () => {
+  let server: WebSocketServer;
+  let url: string;
+  let transport: WebSocketTransport;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    // Reconnect failures are logged through console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    sockets.length = 0;
+    await listen();
+  });
+
+  afterEach(async () => {
+    await transport?.disconnect();
+    sockets.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Start the server the transport connects to
+   */
+  async function listen(options: ServerOptions = {}): Promise<void> {
+    server = new WebSocketServer({ port: 0, ...options });
+    server.on('connection', socket => sockets.push(socket));
+    await new Promise(resolve => server.once('listening', resolve));
+    const address = server.address();
+    url = `ws://127.0.0.1:${address && typeof address === 'object' ? address.port : 0}`;
+  }
+
+  function createTransport(config: Partial<WebSocketTransportConfig> = {}): WebSocketTransport {
+    transport = new WebSocketTransport({ url, ...config });
+    return transport;
+  }
+
+  describe('reconnect', () => {
+    it('asks the reconnect strategy for each delay after the connection drops', async () => {
+      const nextDelay = vi.fn(() => 10);
+      createTransport({ reconnectStrategy: { nextDelay } });
+      const reconnecting: ReconnectingEvent[] = [];
+      transport.on(TransportEvent.RECONNECTING, event => reconnecting.push(event));
+      await transport.connect();
+
+      sockets[0].terminate();
+      await waitFor(() => sockets.length === 2 && transport.isConnected());
+
+      expect(nextDelay).toHaveBeenCalledWith(1);
+      expect(reconnecting).toEqual([{ attempt: 1, delay: 10 }]);
+    });
+
+    it('gives up with RECONNECT_FAILED once the strategy returns null', async () => {
+      const nextDelay = vi.fn((attempt: number) => attempt <= 2 ? 10 : null);
+      createTransport({ reconnectStrategy: { nextDelay } });
+      const failures: ReconnectFailedEvent[] = [];
+      transport.on(TransportEvent.RECONNECT_FAILED, event => failures.push(event));
+      await transport.connect();
+
+      // Stop listening first so every reconnect attempt is refused
+      const closed = new Promise(resolve => server.close(resolve));
+      sockets[0].terminate();
+      await closed;
+      await waitFor(() => transport.getState() === TransportState.ERROR);
+
+      expect(failures.map(failure => failure.nextDelay)).toEqual([10, null]);
+      expect(failures[1].attempt).toBe(2);
+    });
+  });
+
+  describe('heartbeat', () => {
+    it('measures the round trip while pongs arrive', async () => {
+      createTransport({ heartbeatInterval: 20 });
+      const stale = vi.fn();
+      transport.on(TransportEvent.STALE, stale);
+      await transport.connect();
+
+      await waitFor(() => transport.getLastRtt() !== null);
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      expect(stale).not.toHaveBeenCalled();
+      expect(transport.isConnected()).toBe(true);
+    });
+
+    it('drops a connection whose pongs stop and reconnects', async () => {
+      await new Promise(resolve => server.close(resolve));
+      await listen({ autoPong: false });
+      createTransport({ heartbeatInterval: 20, maxMissedHeartbeats: 2, reconnectStrategy: { nextDelay: () => 10 } });
+      const staleEvents: StaleConnectionEvent[] = [];
+      transport.on(TransportEvent.STALE, event => staleEvents.push(event));
+      await transport.connect();
+
+      await waitFor(() => staleEvents.length >= 1 && sockets.length >= 2);
+
+      expect(staleEvents[0]).toEqual({ missedHeartbeats: 2, lastRtt: null });
+    });
+  });
+
+  describe('disconnect', () => {
+    it('stops a connect that is still resolving its auth token', async () => {
+      let releaseToken = (_token: string) => {};
+      createTransport({
+        authTokenProvider: () => new Promise<string>(resolve => {
+          releaseToken = resolve;
+        })
+      });
+
+      const connecting = transport.connect();
+      await transport.disconnect();
+      releaseToken('token');
+
+      await expect(connecting).rejects.toThrow('Connection cancelled by disconnect');
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(sockets).toHaveLength(0);
+      expect(transport.getState()).toBe(TransportState.DISCONNECTED);
+    });
+
+    it('stops a reconnect attempt that is still resolving its auth token', async () => {
+      let tokenRequests = 0;
+      let releaseToken = (_token: string) => {};
+      createTransport({
+        reconnectStrategy: { nextDelay: () => 10 },
+        authTokenProvider: () => {
+          tokenRequests++;
+          return tokenRequests === 1
+            ? Promise.resolve('token')
+            : new Promise<string>(resolve => {
+              releaseToken = resolve;
+            });
+        }
+      });
+      await transport.connect();
+
+      sockets[0].terminate();
+      await waitFor(() => tokenRequests === 2);
+      await transport.disconnect();
+      releaseToken('token');
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(sockets).toHaveLength(1);
+      expect(transport.getState()).toBe(TransportState.DISCONNECTED);
+    });
+  });
+});
@@ -21,12 +21,18 @@ const WS_READY_STATE = {
   CLOSING: 2,
   CLOSED: 3
 };
+
+// Close codes servers use to refuse credentials (policy violation, 4001/4401/4403)
+const AUTH_CLOSE_CODES = [1008, 4001, 4401, 4403];
 import { BaseTransport } from './BaseTransport.js';
 import { TransportEvent, TransportState } from './types.js';
 import type { 
   TransportConfig, 
+  TransportEventMap,
   TransportMessage, 
-  TransportResponse
+  TransportResponse,
+  ReconnectFailedEvent,
+  StaleConnectionEvent
 } from './types.js';
 
 export interface WebSocketTransportConfig extends TransportConfig {
@@ -34,16 +40,36 @@ export interface WebSocketTransportConfig extends TransportConfig {
   protocols?: string | string[];
   headers?: Record<string, string>;
   heartbeatInterval?: number;
+  /**
+   * How the auth token is sent: an Authorization header (Node only),
+   * a query parameter, or a first-frame `auth` message.
+   * Defaults to 'header' in Node and 'query' in browsers
+   */
+  authMode?: 'header' | 'query' | 'message';
+  authQueryParam?: string;
+  /**
+   * Unanswered heartbeats before the connection is treated as stale
+   */
+  maxMissedHeartbeats?: number;
 }
 
 /**
  * WebSocket-based transport implementation
  */
-export class WebSocketTransport extends BaseTransport {
+export class WebSocketTransport<Events extends TransportEventMap = TransportEventMap>
+  extends BaseTransport<Events> {
   protected ws: any | null = null;
   protected reconnectAttempts = 0;
+  /**
+   * Bumped by disconnect() so connection attempts still in flight give up
+   */
+  protected connectionGeneration = 0;
+  private rejectPendingConnect: ((error: Error) => void) | null = null;
   protected reconnectTimer: NodeJS.Timeout | null = null;
   protected heartbeatTimer: NodeJS.Timeout | null = null;
+  protected heartbeatSentAt: number | null = null;
+  protected missedHeartbeats = 0;
+  protected lastRtt: number | null = null;
   protected pendingRequests = new Map<string, {
     resolve: (response: TransportResponse) => void;
     reject: (error: Error) => void;
@@ -63,13 +89,19 @@ export class WebSocketTransport extends BaseTransport {
       return;
     }
 
+    this.clearReconnectTimer();
     this.setState(TransportState.CONNECTING);
     this.reconnectAttempts = 0;
+    this.authRejected = false;
+    const generation = this.connectionGeneration;
 
     try {
       await this.createConnection();
     } catch (error) {
-      this.setState(TransportState.ERROR);
+      // disconnect() already settled the state
+      if (generation === this.connectionGeneration) {
+        this.setState(TransportState.ERROR);
+      }
       throw error;
     }
   }
@@ -84,6 +116,10 @@ export class WebSocketTransport extends BaseTransport {
 
     this.setState(TransportState.DISCONNECTING);
     this.clearTimers();
+    this.reconnectAttempts = 0;
+    this.connectionGeneration++;
+    this.rejectPendingConnect?.(new Error('Connection cancelled by disconnect'));
+    this.rejectPendingConnect = null;
 
     // Cancel pending requests
     for (const [, request] of this.pendingRequests) {
@@ -93,14 +129,17 @@ export class WebSocketTransport extends BaseTransport {
     this.pendingRequests.clear();
 
     if (this.ws) {
+      const socket = this.ws;
+      this.ws = null;
       // Remove listeners (Node.js ws has removeAllListeners, browser doesn't)
-      if (typeof window === 'undefined' && this.ws.removeAllListeners) {
-        this.ws.removeAllListeners();
+      if (typeof window === 'undefined' && socket.removeAllListeners) {
+        socket.removeAllListeners();
+        // ws reports closing a socket that is still connecting as an error
+        socket.on('error', () => {});
       }
-      if (this.ws.readyState === WS_READY_STATE.OPEN) {
-        this.ws.close(1000, 'Client disconnect');
+      if (socket.readyState === WS_READY_STATE.OPEN || socket.readyState === WS_READY_STATE.CONNECTING) {
+        socket.close(1000, 'Client disconnect');
       }
-      this.ws = null;
     }
 
     this.setState(TransportState.DISCONNECTED);
@@ -152,6 +191,20 @@ export class WebSocketTransport extends BaseTransport {
    */
   protected async createConnection(): Promise<void> {
     const config = this.config as WebSocketTransportConfig;
+    const isBrowser = typeof window !== 'undefined';
+    const authMode = config.authMode || (isBrowser ? 'query' : 'header');
+    const generation = this.connectionGeneration;
+    const token = await this.resolveAuthToken();
+
+    let url = config.url;
+    const headers: Record<string, string> = { ...config.headers };
+    if (token && authMode === 'query') {
+      const parsed = new URL(url);
+      parsed.searchParams.set(config.authQueryParam || 'token', token);
+      url = parsed.toString();
+    } else if (token && authMode === 'header') {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
     
     this.log(`Connecting to ${config.url}`);
     
@@ -162,21 +215,28 @@ export class WebSocketTransport extends BaseTransport {
       }
       WebSocketImpl = await WebSocketImplPromise;
     }
+
+    // disconnect() was called while the token or the ws module loaded
+    if (generation !== this.connectionGeneration) {
+      throw new Error('Connection cancelled by disconnect');
+    }
     
     return new Promise((resolve, reject) => {
+      this.rejectPendingConnect = reject;
       try {
         // Browser WebSocket constructor: new WebSocket(url, protocols)
         // Node.js ws constructor: new WebSocket(url, protocols, options)
         if (typeof window !== 'undefined') {
           // Browser environment - no options parameter
-          this.ws = new WebSocketImpl(config.url, config.protocols);
+          this.ws = new WebSocketImpl(url, config.protocols);
         } else {
           // Node.js environment - Can pass options
-          this.ws = new WebSocketImpl(config.url, config.protocols, {
-            headers: config.headers
-          });
+          this.ws = new WebSocketImpl(url, config.protocols, { headers });
         }
 
+        // Events from a socket we've since replaced must not tear down the new one
+        const socket = this.ws;
+
         const connectTimeout = setTimeout(() => {
           if (this.ws) {
             this.ws.close();
@@ -189,22 +249,39 @@ export class WebSocketTransport extends BaseTransport {
           // Browser WebSocket events
           this.ws.addEventListener('open', () => {
             clearTimeout(connectTimeout);
+            // Browser sockets keep their listeners after disconnect()
+            if (this.ws !== socket) {
+              socket.close(1000, 'Client disconnect');
+              return;
+            }
+            if (token && authMode === 'message') {
+              this.sendAuthFrame(token);
+            }
             this.log('Connected');
-            this.setState(TransportState.CONNECTED);
             this.reconnectAttempts = 0;
             this.startHeartbeat();
-            this.emit(TransportEvent.CONNECTED);
+            // Emits CONNECTED once; listeners send the identity/resume frame
+            this.setState(TransportState.CONNECTED);
             resolve();
           });
 
           this.ws.addEventListener('close', (event: CloseEvent) => {
             clearTimeout(connectTimeout);
             this.log(`Connection closed: ${event.code} - ${event.reason}`);
-            this.handleDisconnect();
+            if (this.ws === socket) {
+              if (AUTH_CLOSE_CODES.includes(event.code)) {
+                this.handleAuthRejected(event.reason || `Connection closed with code ${event.code}`);
+                reject(new Error(`Authentication rejected: ${event.code}`));
+              }
+              this.handleDisconnect();
+            }
           });
 
           this.ws.addEventListener('error', (error: Event) => {
             clearTimeout(connectTimeout);
+            if (this.ws !== socket) {
+              return;
+            }
             this.logError('WebSocket error:', error);
             this.emit(TransportEvent.ERROR, error);
             
@@ -216,22 +293,35 @@ export class WebSocketTransport extends BaseTransport {
           // Node.js ws events
           this.ws.on('open', () => {
             clearTimeout(connectTimeout);
+            if (token && authMode === 'message') {
+              this.sendAuthFrame(token);
+            }
             this.log('Connected');
-            this.setState(TransportState.CONNECTED);
             this.reconnectAttempts = 0;
             this.startHeartbeat();
-            this.emit(TransportEvent.CONNECTED);
+            // Emits CONNECTED once; listeners send the identity/resume frame
+            this.setState(TransportState.CONNECTED);
             resolve();
           });
 
           this.ws.on('close', (code: number, reason: Buffer) => {
             clearTimeout(connectTimeout);
             this.log(`Connection closed: ${code} - ${reason}`);
-            this.handleDisconnect();
+            if (this.ws === socket) {
+              if (AUTH_CLOSE_CODES.includes(code)) {
+                this.handleAuthRejected(reason?.toString() || `Connection closed with code ${code}`);
+                reject(new Error(`Authentication rejected: ${code}`));
+              }
+              this.handleDisconnect();
+            }
           });
 
           this.ws.on('error', (error: Error) => {
             clearTimeout(connectTimeout);
+            // ws reports a refused upgrade as "Unexpected server response: 401"
+            if (/Unexpected server response: 40[13]/.test(error.message)) {
+              this.handleAuthRejected(error.message);
+            }
             this.logError('WebSocket error:', error);
             this.emit(TransportEvent.ERROR, error);
             
@@ -260,6 +350,10 @@ export class WebSocketTransport extends BaseTransport {
               this.ws.pong();
             }
           });
+
+          this.ws.on('pong', () => {
+            this.handleHeartbeatAck();
+          });
         }
 
       } catch (error) {
@@ -286,6 +380,19 @@ export class WebSocketTransport extends BaseTransport {
       }
       
       const message = JSON.parse(messageText);
+
+      if (message.type === 'auth_error') {
+        this.handleAuthRejected(message.message || message.error || 'Authentication failed', message.code);
+        this.ws?.close(4401, 'Authentication rejected');
+        return;
+      }
+
+      // Browser heartbeat replies never reach message listeners
+      if (message.type === 'heartbeat_ack' || message.type === 'pong') {
+        this.handleHeartbeatAck();
+        return;
+      }
+
       this.log('Received message:', JSON.stringify(message).substring(0, 200));
 
       // Check if this is a response to a pending request
@@ -316,7 +423,9 @@ export class WebSocketTransport extends BaseTransport {
    * Handle disconnection
    */
   protected handleDisconnect(): void {
-    this.clearTimers();
+    // Leave any scheduled reconnect in place - a failed attempt's close
+    // event can arrive after the next attempt has been queued
+    this.stopHeartbeat();
     const wasConnected = this.state === TransportState.CONNECTED;
     this.setState(TransportState.DISCONNECTED);
 
@@ -327,6 +436,12 @@ export class WebSocketTransport extends BaseTransport {
     }
     this.pendingRequests.clear();
 
+    // Retrying with the same credentials would only be refused again
+    if (this.authRejected) {
+      this.setState(TransportState.ERROR);
+      return;
+    }
+
     // Attempt reconnection if configured
     if (wasConnected && this.config.reconnect) {
       this.scheduleReconnect();
@@ -337,39 +452,157 @@ export class WebSocketTransport extends BaseTransport {
    * Schedule reconnection attempt
    */
   protected scheduleReconnect(): void {
-    const config = this.config as WebSocketTransportConfig;
-    
-    if (this.reconnectAttempts >= (config.maxReconnectAttempts || 5)) {
-      this.logError('Max reconnection attempts reached');
-      this.setState(TransportState.ERROR);
+    const delay = this.getReconnectStrategy().nextDelay(this.reconnectAttempts + 1);
+
+    if (delay === null) {
+      this.giveUpReconnect({ attempt: this.reconnectAttempts, nextDelay: null });
       return;
     }
 
-    const delay = config.reconnectInterval || 5000;
+    this.queueReconnect(delay);
+  }
+
+  /**
+   * Start the timer for the next reconnection attempt
+   */
+  private queueReconnect(delay: number): void {
     this.reconnectAttempts++;
-    
-    this.log(`Scheduling reconnect attempt ${this.reconnectAttempts} in ${delay}ms`);
-    
+    const attempt = this.reconnectAttempts;
+
+    this.log(`Scheduling reconnect attempt ${attempt} in ${delay}ms`);
+    this.emit(TransportEvent.RECONNECTING, { attempt, delay });
+
     this.reconnectTimer = setTimeout(() => {
-      this.connect().catch(error => {
-        this.logError('Reconnection failed:', error);
-        this.handleDisconnect();
-      });
+      this.reconnectTimer = null;
+      this.attemptReconnect(attempt);
     }, delay);
   }
 
+  /**
+   * Run a single reconnection attempt and queue the next one on failure
+   */
+  protected async attemptReconnect(attempt: number): Promise<void> {
+    this.setState(TransportState.CONNECTING);
+
+    try {
+      await this.createConnection();
+    } catch (error) {
+      // connect() or disconnect() was called while this attempt was in flight
+      if (this.reconnectAttempts !== attempt) {
+        return;
+      }
+
+      if (this.authRejected) {
+        this.setState(TransportState.ERROR);
+        return;
+      }
+
+      this.logError('Reconnection failed:', error);
+      const nextDelay = this.getReconnectStrategy().nextDelay(attempt + 1);
+      const event: ReconnectFailedEvent = { attempt, nextDelay };
+      if (error instanceof Error) {
+        event.error = error;
+      }
+
+      if (nextDelay === null) {
+        this.giveUpReconnect(event);
+        return;
+      }
+
+      this.emit(TransportEvent.RECONNECT_FAILED, event);
+      this.setState(TransportState.DISCONNECTED);
+      this.queueReconnect(nextDelay);
+    }
+  }
+
+  /**
+   * Stop reconnecting once the strategy is exhausted
+   */
+  private giveUpReconnect(event: ReconnectFailedEvent): void {
+    this.logError('Max reconnection attempts reached');
+    this.emit(TransportEvent.RECONNECT_FAILED, event);
+    this.setState(TransportState.ERROR);
+  }
+
+  /**
+   * Send credentials as the first frame on a new socket
+   */
+  protected sendAuthFrame(token: string): void {
+    if (this.isSocketOpen()) {
+      this.sendFrame({ type: 'auth', token });
+    }
+  }
+
+  /**
+   * Check whether the current socket is open for writing
+   */
+  protected isSocketOpen(): boolean {
+    return !!this.ws && this.ws.readyState === WS_READY_STATE.OPEN;
+  }
+
+  /**
+   * Write a JSON frame to the open socket
+   */
+  protected sendFrame(frame: object): void {
+    if (!this.isSocketOpen()) {
+      throw new Error('WebSocket not connected');
+    }
+    this.ws.send(JSON.stringify(frame));
+  }
+
+  /**
+   * Re-send credentials after a token refresh, e.g. from AuthServiceBase's
+   * onTokenRefresh callback. First-frame auth is re-sent on the open socket;
+   * header and query auth need a fresh connection
+   */
+  async reauthenticate(token?: string): Promise<void> {
+    const config = this.config as WebSocketTransportConfig;
+    const authMode = config.authMode || (typeof window !== 'undefined' ? 'query' : 'header');
+    this.authRejected = false;
+
+    if (!this.isConnected()) {
+      return;
+    }
+
+    if (authMode === 'message') {
+      const current = token || await this.resolveAuthToken();
+      if (current) {
+        this.sendAuthFrame(current);
+      }
+      return;
+    }
+
+    this.log('Reconnecting with refreshed credentials');
+    await this.disconnect();
+    await this.connect();
+  }
+
   /**
    * Start heartbeat
    */
   protected startHeartbeat(): void {
     const config = this.config as WebSocketTransportConfig;
     const interval = config.heartbeatInterval || 30000;
+    const maxMissed = config.maxMissedHeartbeats ?? 2;
+
+    this.heartbeatSentAt = null;
+    this.missedHeartbeats = 0;
 
     this.heartbeatTimer = setInterval(() => {
       if (this.ws && this.ws.readyState === WS_READY_STATE.OPEN) {
+        // Previous beat is still unanswered
+        if (this.heartbeatSentAt !== null) {
+          this.missedHeartbeats++;
+          if (this.missedHeartbeats >= maxMissed) {
+            this.handleStale();
+            return;
+          }
+        }
+
+        this.heartbeatSentAt = Date.now();
         if (typeof window !== 'undefined') {
           // Browser: Send a heartbeat message instead of ping
-          this.ws.send(JSON.stringify({ type: 'heartbeat', timestamp: Date.now() }));
+          this.ws.send(JSON.stringify({ type: 'heartbeat', timestamp: this.heartbeatSentAt }));
         } else {
           // Node.js: Use ping/pong
           this.ws.ping();
@@ -379,17 +612,78 @@ export class WebSocketTransport extends BaseTransport {
   }
 
   /**
-   * Clear all timers
+   * Record a pong or heartbeat_ack reply
    */
-  protected clearTimers(): void {
-    if (this.reconnectTimer) {
-      clearTimeout(this.reconnectTimer);
-      this.reconnectTimer = null;
+  protected handleHeartbeatAck(): void {
+    if (this.heartbeatSentAt === null) {
+      return;
+    }
+
+    this.lastRtt = Date.now() - this.heartbeatSentAt;
+    this.heartbeatSentAt = null;
+    this.missedHeartbeats = 0;
+    this.log(`Heartbeat acknowledged in ${this.lastRtt}ms`);
+  }
+
+  /**
+   * Drop a connection that stopped answering heartbeats and reconnect
+   */
+  protected handleStale(): void {
+    const event: StaleConnectionEvent = {
+      missedHeartbeats: this.missedHeartbeats,
+      lastRtt: this.lastRtt
+    };
+
+    this.logError(`Connection stale: ${event.missedHeartbeats} heartbeats unanswered`);
+    this.emit(TransportEvent.STALE, event);
+
+    const socket = this.ws;
+    this.ws = null;
+    if (socket) {
+      if (typeof window === 'undefined' && socket.terminate) {
+        socket.removeAllListeners();
+        socket.terminate();
+      } else {
+        socket.close(4000, 'Heartbeat timeout');
+      }
     }
 
+    this.handleDisconnect();
+  }
+
+  /**
+   * Round-trip time of the last answered heartbeat in ms
+   */
+  getLastRtt(): number | null {
+    return this.lastRtt;
+  }
+
+  /**
+   * Stop heartbeat
+   */
+  protected stopHeartbeat(): void {
     if (this.heartbeatTimer) {
       clearInterval(this.heartbeatTimer);
       this.heartbeatTimer = null;
     }
+    this.heartbeatSentAt = null;
+  }
+
+  /**
+   * Cancel a scheduled reconnection attempt
+   */
+  protected clearReconnectTimer(): void {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+  }
+
+  /**
+   * Clear all timers
+   */
+  protected clearTimers(): void {
+    this.clearReconnectTimer();
+    this.stopHeartbeat();
   }
 }
\ No newline at end of file
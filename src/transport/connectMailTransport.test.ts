@@ -0,0 +1,116 @@
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { Duplex } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { WebSocketServer } from 'ws';
+import { connectMailTransport } from './connectMailTransport.js';
+import { HttpMailTransport } from './HttpMailTransport.js';
+import { MailTransportAdapter } from './MailTransportAdapter.js';
+import type { MailTransportOptions } from './connectMailTransport.js';
+
+type UpgradeBehavior = 'swallow' | 'refuse' | 'accept';
+
+describe('connectMailTransport', () => {
+  let server: Server;
+  let port: number;
+  let upgrade: UpgradeBehavior;
+  let httpRequests: string[];
+  const sockets = new Set<Duplex>();
+  const wss = new WebSocketServer({ noServer: true });
+  let transport: MailTransportAdapter | HttpMailTransport | undefined;
+
+  beforeEach(async () => {
+    // Connection failures are logged through console.error
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    httpRequests = [];
+    transport = undefined;
+    server = createServer(handleHttp);
+    server.on('upgrade', handleUpgrade);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const address = server.address();
+    port = typeof address === 'object' && address ? address.port : 0;
+  });
+
+  afterEach(async () => {
+    await transport?.disconnect();
+    sockets.forEach(socket => socket.destroy());
+    wss.clients.forEach(client => client.terminate());
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * Minimal HTTP mail API: identity handshake and an idle event stream
+   */
+  function handleHttp(request: IncomingMessage, response: ServerResponse): void {
+    httpRequests.push(`${request.method} ${request.url}`);
+    if (request.url?.startsWith('/api/mail/send')) {
+      response.writeHead(200, { 'Content-Type': 'application/json' });
+      response.end(JSON.stringify({ type: 'identity_confirmed', email_address: 'user@mindswarm.ai' }));
+    } else if (request.url?.startsWith('/api/mail/events')) {
+      response.writeHead(200, { 'Content-Type': 'text/event-stream' });
+      response.write(':\n\n');
+    } else {
+      response.writeHead(404).end();
+    }
+  }
+
+  function handleUpgrade(request: IncomingMessage, socket: Duplex, head: Buffer): void {
+    sockets.add(socket);
+    if (upgrade === 'refuse') {
+      socket.end('HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n');
+    } else if (upgrade === 'accept') {
+      wss.handleUpgrade(request, socket, head, () => {});
+    }
+    // 'swallow': like a proxy that never answers the upgrade
+  }
+
+  function connect(options: MailTransportOptions = {}): Promise<MailTransportAdapter | HttpMailTransport> {
+    return connectMailTransport({
+      websocketUrl: `ws://127.0.0.1:${port}/ws`,
+      apiBaseUrl: `http://127.0.0.1:${port}/api`,
+      timeout: 60000,
+      reconnectInterval: 60000,
+      probeTimeout: 100,
+      ...options
+    }).then(connected => {
+      transport = connected;
+      return connected;
+    });
+  }
+
+  it('uses the WebSocket when it connects', async () => {
+    upgrade = 'accept';
+    const onFallback = vi.fn();
+
+    const connected = await connect({ onFallback });
+
+    expect(connected).toBeInstanceOf(MailTransportAdapter);
+    expect(connected.getConfig().timeout).toBe(60000);
+    expect(onFallback).not.toHaveBeenCalled();
+  });
+
+  it('falls back to HTTP after the probe timeout rather than the request timeout', async () => {
+    upgrade = 'swallow';
+    const onFallback = vi.fn();
+    const started = Date.now();
+
+    const connected = await connect({ onFallback });
+
+    expect(connected).toBeInstanceOf(HttpMailTransport);
+    expect(Date.now() - started).toBeLessThan(5000);
+    expect(onFallback).toHaveBeenCalledOnce();
+    expect(onFallback.mock.calls[0][0]).toMatchObject({ message: 'Connection timeout' });
+  });
+
+  it('throws a refused upgrade instead of retrying the token over HTTP', async () => {
+    upgrade = 'refuse';
+    const onFallback = vi.fn();
+
+    await expect(connect({ onFallback })).rejects.toThrow('401');
+
+    expect(onFallback).not.toHaveBeenCalled();
+    expect(httpRequests).toEqual([]);
+  });
+});
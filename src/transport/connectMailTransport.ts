@@ -0,0 +1,87 @@
+/**
+ * Mail transport selection
+ */
+
+import { mergeConfig } from '../utils/config.js';
+import type { SharedConfig } from '../utils/config.js';
+import { DEFAULT_WEBSOCKET_PROBE_TIMEOUT } from './constants.js';
+import { HttpMailTransport } from './HttpMailTransport.js';
+import type { HttpReceiveMode } from './HttpMailTransport.js';
+import { MailTransportAdapter } from './MailTransportAdapter.js';
+import { TransportEvent } from './types.js';
+
+/**
+ * Which transport to use; auto tries WebSocket first and falls back to HTTP
+ */
+export type MailTransportMode = 'websocket' | 'http' | 'auto';
+
+export interface MailTransportOptions extends SharedConfig {
+  mode?: MailTransportMode;
+  receiveMode?: HttpReceiveMode;
+  defaultFrom?: string;
+  /**
+   * Connect timeout for the WebSocket attempt in auto mode; the
+   * configured timeout still applies once connected
+   */
+  probeTimeout?: number;
+  /**
+   * Called when auto mode falls back to HTTP, with the WebSocket error
+   */
+  onFallback?: (error: unknown) => void;
+}
+
+/**
+ * Create and connect a mail transport from shared configuration
+ * In auto mode the HTTP transport is used when the WebSocket connect fails,
+ * e.g. behind proxies that refuse WebSocket upgrades. Refused credentials
+ * are thrown instead, since HTTP would send the same token
+ */
+export async function connectMailTransport(
+  options: MailTransportOptions = {}
+): Promise<MailTransportAdapter | HttpMailTransport> {
+  const config = mergeConfig(options);
+  const mode = options.mode ?? 'auto';
+  const common = {
+    timeout: config.timeout,
+    reconnectInterval: config.reconnectInterval,
+    maxReconnectAttempts: config.maxReconnectAttempts,
+    debug: config.debugMode,
+    ...(options.defaultFrom ? { defaultFrom: options.defaultFrom } : {})
+  };
+
+  if (mode !== 'http') {
+    // A proxy that swallows the upgrade shouldn't hold up the fallback for the full timeout
+    const probeTimeout = mode === 'auto' ? options.probeTimeout ?? DEFAULT_WEBSOCKET_PROBE_TIMEOUT : config.timeout;
+    const transport = new MailTransportAdapter({
+      ...common,
+      url: config.websocketUrl,
+      timeout: probeTimeout,
+      ackTimeout: config.timeout
+    });
+    let authRejected = false;
+    const stopWatchingAuth = transport.on(TransportEvent.AUTH_ERROR, () => {
+      authRejected = true;
+    });
+    try {
+      await transport.connect();
+      transport.updateConfig({ timeout: config.timeout });
+      return transport;
+    } catch (error) {
+      await transport.disconnect();
+      if (mode === 'websocket' || authRejected) {
+        throw error;
+      }
+      options.onFallback?.(error);
+    } finally {
+      stopWatchingAuth();
+    }
+  }
+
+  const transport = new HttpMailTransport({
+    ...common,
+    apiBaseUrl: config.apiBaseUrl,
+    ...(options.receiveMode ? { receiveMode: options.receiveMode } : {})
+  });
+  await transport.connect();
+  return transport;
+}
@@ -16,12 +16,16 @@ export const UI_AGENT_EMAIL_DOMAIN = "ui-agents.ltngt.ai";
 // Base domain - owned by the team in case emails escape
 export const BASE_DOMAIN = "ltngt.ai";
 
+// Header that ties a response to its request; replies echo it back
+export const CORRELATION_ID_HEADER = "X-Correlation-ID";
+
 // Timeout constants for UI operations
 // High timeout needed until UI shortcuts are restored
 export const UI_OPERATION_TIMEOUT_MS = 180000; // 3 minutes (same as DataService)
 
 // Connection constants
 export const DEFAULT_WEBSOCKET_TIMEOUT = 30000; // 30 seconds
+export const DEFAULT_WEBSOCKET_PROBE_TIMEOUT = 5000; // 5 seconds, auto mode's WebSocket attempt
 export const DEFAULT_RECONNECT_INTERVAL = 5000; // 5 seconds
 export const MAX_RECONNECT_ATTEMPTS = 10;
 
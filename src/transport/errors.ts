@@ -0,0 +1,25 @@
+/**
+ * Transport error types
+ */
+
+/**
+ * Why a mail was not accepted by the server
+ */
+export type MailDeliveryFailure = 'rejected' | 'timeout' | 'disconnected';
+
+/**
+ * Raised when sendMail cannot confirm that the server accepted a mail
+ */
+export class MailDeliveryError extends Error {
+  readonly code: MailDeliveryFailure;
+  readonly messageId: string;
+  readonly status: string | undefined;
+
+  constructor(code: MailDeliveryFailure, messageId: string, message: string, status?: string) {
+    super(message);
+    this.name = 'MailDeliveryError';
+    this.code = code;
+    this.messageId = messageId;
+    this.status = status;
+  }
+}
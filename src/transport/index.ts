@@ -5,19 +5,83 @@
 // Base types and interfaces
 export * from './types.js';
 
+// Errors
+export { MailDeliveryError } from './errors.js';
+export type { MailDeliveryFailure } from './errors.js';
+
 // Base transport implementation
 export { BaseTransport } from './BaseTransport.js';
 
+// Reconnect strategies
+export {
+  FixedReconnectStrategy,
+  ExponentialBackoffStrategy,
+  RetryForeverStrategy
+} from './ReconnectStrategy.js';
+export type {
+  ReconnectStrategy,
+  FixedReconnectOptions,
+  ExponentialBackoffOptions,
+  RetryForeverOptions
+} from './ReconnectStrategy.js';
+
 // WebSocket transport
 export { WebSocketTransport } from './WebSocketTransport.js';
 export type { WebSocketTransportConfig } from './WebSocketTransport.js';
 
+// Session resume
+export { MailResumeTracker } from './MailResumeTracker.js';
+export type { ResumePoint } from './MailResumeTracker.js';
+
 // Mail transport adapter
 export { MailTransportAdapter } from './MailTransportAdapter.js';
 export type { MailTransportConfig } from './MailTransportAdapter.js';
 
+// HTTP fallback transport
+export { HttpMailTransport } from './HttpMailTransport.js';
+export type { HttpMailTransportConfig, HttpReceiveMode } from './HttpMailTransport.js';
+export { connectMailTransport } from './connectMailTransport.js';
+export type { MailTransportMode, MailTransportOptions } from './connectMailTransport.js';
+
+// In-memory transport for tests and offline demos
+export { LoopbackMailTransport } from './LoopbackMailTransport.js';
+export type { LoopbackMailTransportConfig } from './LoopbackMailTransport.js';
+export { FakeUiAgent } from './FakeUiAgent.js';
+export type { FakeReply, FakeReplyScript, FakeUiAgentConfig, ScheduledReply } from './FakeUiAgent.js';
+
 // Legacy exports for backward compatibility
-export { MailQueue } from './MailQueue.js';
-export type { QueuedMail, MailQueueConfig } from './MailQueue.js';
+export { MailQueue, MailPriority, MailQueueEvent, defaultDedupeKey } from './MailQueue.js';
+export type {
+  QueuedMail,
+  MailQueueConfig,
+  MailQueueEventMap,
+  EnqueueOptions,
+  DedupeCandidate,
+  DedupeKeyFn,
+  MailAttempt,
+  MailDropReason,
+  DeadLetter,
+  DuplicateRejectedEvent,
+  RequeuedEvent,
+  MailQueueStorageErrorEvent,
+  MailQueueStats
+} from './MailQueue.js';
+export { MailQueueDebugLog } from './MailQueueDebugLog.js';
+export type { MailQueueDebugLogOptions } from './MailQueueDebugLog.js';
+export { MailQueueDispatcher, MailQueueDispatcherEvent } from './MailQueueDispatcher.js';
+export type {
+  MailQueueDispatcherConfig,
+  MailQueueDispatcherEventMap,
+  DispatchSentEvent,
+  DispatchRetryEvent,
+  DispatchFailedEvent,
+  DispatchProgress
+} from './MailQueueDispatcher.js';
+export {
+  InMemoryMailQueueStorage,
+  JsonFileMailQueueStorage,
+  IndexedDbMailQueueStorage
+} from './MailQueueStorage.js';
+export type { MailQueueStorage, MailQueueSnapshot } from './MailQueueStorage.js';
 export * from './mailTemplates.js';
 export * from './constants.js';
\ No newline at end of file
@@ -0,0 +1,229 @@
+/**
+ * Mail protocol frames shared by the WebSocket and HTTP mail transports
+ */
+
+import type { Mail, MailSentStatus } from '../types/mail.js';
+import { MailHeaders, parseRawMessage, setMailHeaders } from '../utils/rfc2822.js';
+import {
+  decodeAddressHeader,
+  decodeHeaderField,
+  decodeHeaderValue,
+  encodeAddressHeader,
+  encodeHeaderField,
+  encodeHeaderValue
+} from '../utils/rfc2047.js';
+import { parseMessageIds } from '../utils/threading.js';
+import { CORRELATION_ID_HEADER } from './constants.js';
+import type { ResumePoint } from './MailResumeTracker.js';
+
+const FAILED_SEND_STATUSES = ['failed', 'error', 'rejected'];
+const CORE_HEADERS = ['to', 'from', 'subject', 'message-id'];
+
+/**
+ * Build the outgoing mail frame the server expects
+ * The mail's own fields replace same-named entries in its headers
+ */
+export function buildMailFrame(mail: Mail, messageId: string): Record<string, any> {
+  return {
+    type: 'mail',
+    mail: {
+      headers: {
+        // Extra headers such as Content-Type for multipart bodies
+        ...withoutCoreHeaders(mail),
+        'To': encodeAddressHeader(mail.to_address),
+        'From': encodeAddressHeader(mail.from_address),
+        'Subject': encodeHeaderValue(mail.subject),
+        'Message-ID': messageId,
+        ...(mail.in_reply_to ? { 'In-Reply-To': mail.in_reply_to } : {}),
+        ...(mail.references?.length ? { 'References': mail.references.join(' ') } : {})
+      },
+      body: mail.body
+    }
+  };
+}
+
+/**
+ * Drop headers the frame sets from the mail's own fields and encode
+ * non-ASCII values of the rest
+ */
+function withoutCoreHeaders(mail: Mail): Record<string, string> {
+  const replaced = [
+    ...CORE_HEADERS,
+    ...(mail.in_reply_to ? ['in-reply-to'] : []),
+    ...(mail.references?.length ? ['references'] : [])
+  ];
+  return Object.fromEntries(
+    Object.entries(mail.headers ?? {})
+      .filter(([name]) => !replaced.includes(name.toLowerCase()))
+      .map(([name, value]) => [name, encodeHeaderField(name, value)])
+  );
+}
+
+/**
+ * Build the identity handshake frame
+ * Always sent, even with an empty email - the server responds with
+ * the correct email for authenticated users. With a resume point the
+ * server replays mail pushed since then, or answers resync_required
+ */
+export function buildIdentityFrame(email: string | undefined, resume?: ResumePoint | null): Record<string, any> {
+  const frame: Record<string, any> = {
+    type: 'set_identity',
+    email_address: email || ''
+  };
+
+  if (resume) {
+    frame.resume = {
+      last_message_id: resume.lastMessageId,
+      last_sequence: resume.lastSequence
+    };
+  }
+
+  return frame;
+}
+
+/**
+ * Read the server sequence number of an inbound frame, if it has one
+ */
+export function getFrameSequence(message: any): number | undefined {
+  const sequence = message.sequence ?? message.seq;
+  return typeof sequence === 'number' ? sequence : undefined;
+}
+
+/**
+ * Convert a mail or mail_notification frame to Mail, or null for other frames
+ */
+export function normalizeInboundMail(message: any): Mail | null {
+  if (message.type === 'mail' && message.mail) {
+    return normalizeServerMail(message.mail);
+  }
+
+  if (message.type === 'mail_notification') {
+    return normalizeServerMail({
+      ...message,
+      from_address: message.from,
+      to_address: message.to,
+      timestamp: message.timestamp || new Date().toISOString()
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Build a Mail from server data: a Mail object, wire-format headers plus
+ * body, or a raw RFC 5322 message in `raw`
+ * Header fields fill in whatever the object itself leaves out
+ */
+export function normalizeServerMail(data: any): Mail {
+  let headers = toMailHeaders(data.headers);
+  let rawBody: string | undefined;
+  if (typeof data.raw === 'string') {
+    const parsed = parseRawMessage(data.raw);
+    headers = parsed.headers;
+    rawBody = parsed.body;
+  }
+
+  const mail: Mail = {
+    from_address: decodeField(data.from_address, decodeAddressHeader) ?? headers.get('From') ?? '',
+    to_address: decodeField(data.to_address, decodeAddressHeader) ?? headers.get('To') ?? '',
+    subject: decodeField(data.subject, decodeHeaderValue) ?? headers.get('Subject') ?? '',
+    body: data.body ?? rawBody ?? ''
+  };
+
+  const messageId = data.message_id ?? headers.get('Message-ID');
+  if (messageId) {
+    mail.message_id = messageId;
+  }
+  const inReplyTo = data.in_reply_to ?? headers.get('In-Reply-To');
+  if (inReplyTo) {
+    mail.in_reply_to = inReplyTo;
+  }
+  const references = Array.isArray(data.references)
+    ? data.references.map(String)
+    : parseMessageIds(headers.get('References') ?? '');
+  if (references.length > 0) {
+    mail.references = references;
+  }
+  if (typeof data.correlation_id === 'string' && !headers.has(CORRELATION_ID_HEADER)) {
+    headers.set(CORRELATION_ID_HEADER, data.correlation_id);
+  }
+  const timestamp = data.timestamp ?? toIsoDate(headers.get('Date'));
+  if (timestamp) {
+    mail.timestamp = timestamp;
+  }
+
+  return setMailHeaders(mail, headers);
+}
+
+/**
+ * Read server headers leniently, skipping fields that aren't valid
+ */
+function toMailHeaders(value: unknown): MailHeaders {
+  if (typeof value === 'string') {
+    return MailHeaders.parse(value);
+  }
+
+  const headers = new MailHeaders();
+  if (!value || typeof value !== 'object') {
+    return headers;
+  }
+
+  const entries: Iterable<[string, unknown]> = Symbol.iterator in value
+    ? (value as Iterable<[string, unknown]>)
+    : Object.entries(value);
+  for (const [name, fieldValue] of entries) {
+    const values = Array.isArray(fieldValue) ? fieldValue : [fieldValue];
+    for (const v of values) {
+      if (v === undefined || v === null) {
+        continue;
+      }
+      try {
+        headers.append(name, decodeHeaderField(name, String(v)));
+      } catch {
+        // Invalid field name - drop it rather than the whole mail
+      }
+    }
+  }
+  return headers;
+}
+
+/**
+ * Decode encoded words in a string field, passing other values through
+ */
+function decodeField(value: unknown, decode: (value: string) => string): any {
+  return typeof value === 'string' ? decode(value) : value;
+}
+
+/**
+ * Convert an RFC 5322 Date header to ISO 8601
+ */
+function toIsoDate(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+/**
+ * Read the status of a mail_sent frame, which may be an object or a bare string
+ */
+export function parseMailSentStatus(message: any): MailSentStatus {
+  return typeof message.status === 'object' && message.status !== null
+    ? message.status
+    : { status: message.status || 'sent' };
+}
+
+/**
+ * Get the failure reason of a mail_sent frame, or null if the mail was accepted
+ */
+export function getMailSentFailure(message: any, status: MailSentStatus): string | null {
+  const error = status.error || message.error;
+  if (error) {
+    return String(error);
+  }
+  if (message.success === false || FAILED_SEND_STATUSES.includes(status.status)) {
+    return status.status;
+  }
+  return null;
+}
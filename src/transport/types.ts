@@ -2,7 +2,11 @@
  * Transport layer types and interfaces
  */
 
-import type { Mail } from '../types/mail.js';
+import type { Mail, SentMail } from '../types/mail.js';
+import type { ApiError } from '../types/auth.js';
+import type { ReconnectStrategy } from './ReconnectStrategy.js';
+import type { EventListener, Unsubscribe } from '../utils/EventEmitter.js';
+import type { ResumePoint } from './MailResumeTracker.js';
 
 // Re-export Mail type for use in this module
 export type { Mail };
@@ -39,6 +43,11 @@ export interface TransportResponse {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Supplies the current auth token, e.g. AuthServiceBase.getAuthToken
+ */
+export type AuthTokenProvider = () => string | null | undefined | Promise<string | null | undefined>;
+
 /**
  * Transport configuration options
  */
@@ -48,6 +57,18 @@ export interface TransportConfig {
   reconnect?: boolean;
   reconnectInterval?: number;
   maxReconnectAttempts?: number;
+  /**
+   * Overrides reconnectInterval/maxReconnectAttempts when set
+   */
+  reconnectStrategy?: ReconnectStrategy;
+  /**
+   * Called on every connect and reconnect to authenticate the connection
+   */
+  authTokenProvider?: AuthTokenProvider;
+  /**
+   * Called when the server rejects the credentials; no reconnect follows
+   */
+  onAuthError?: (error: ApiError) => void;
   debug?: boolean;
 }
 
@@ -59,9 +80,99 @@ export enum TransportEvent {
   DISCONNECTED = 'disconnected',
   MESSAGE = 'message',
   ERROR = 'error',
-  STATE_CHANGE = 'state_change'
+  STATE_CHANGE = 'state_change',
+  RECONNECTING = 'reconnecting',
+  RECONNECT_FAILED = 'reconnect_failed',
+  STALE = 'stale',
+  AUTH_ERROR = 'auth_error'
+}
+
+/**
+ * Payload of TransportEvent.STATE_CHANGE
+ */
+export interface StateChangeEvent {
+  from: TransportState;
+  to: TransportState;
+}
+
+/**
+ * Payload of TransportEvent.RECONNECTING
+ */
+export interface ReconnectingEvent {
+  attempt: number;
+  delay: number;
 }
 
+/**
+ * Payload of TransportEvent.RECONNECT_FAILED
+ * nextDelay is null when the strategy has given up
+ */
+export interface ReconnectFailedEvent {
+  attempt: number;
+  nextDelay: number | null;
+  error?: Error;
+}
+
+/**
+ * Payload of TransportEvent.STALE
+ */
+export interface StaleConnectionEvent {
+  missedHeartbeats: number;
+  lastRtt: number | null;
+}
+
+/**
+ * Listener arguments for each transport event
+ */
+export type TransportEventMap = {
+  [TransportEvent.CONNECTED]: [];
+  [TransportEvent.DISCONNECTED]: [];
+  [TransportEvent.MESSAGE]: [message: any];
+  [TransportEvent.ERROR]: [error: unknown];
+  [TransportEvent.STATE_CHANGE]: [change: StateChangeEvent];
+  [TransportEvent.RECONNECTING]: [event: ReconnectingEvent];
+  [TransportEvent.RECONNECT_FAILED]: [event: ReconnectFailedEvent];
+  [TransportEvent.STALE]: [event: StaleConnectionEvent];
+  [TransportEvent.AUTH_ERROR]: [error: ApiError];
+};
+
+/**
+ * Mail transport event types
+ */
+export enum MailTransportEvent {
+  MAIL = 'mail',
+  MAIL_SENT = 'mail_sent',
+  IDENTITY_CONFIRMED = 'identity_confirmed',
+  RESYNC_REQUIRED = 'resync_required'
+}
+
+/**
+ * Payload of MailTransportEvent.IDENTITY_CONFIRMED
+ */
+export interface IdentityConfirmedEvent {
+  userEmail?: string;
+  uiAgentEmail?: string;
+}
+
+/**
+ * Payload of MailTransportEvent.RESYNC_REQUIRED
+ * Mail since the resume point may be lost; reload state from the server
+ */
+export interface ResyncRequiredEvent {
+  resumePoint: ResumePoint | null;
+  reason?: string;
+}
+
+/**
+ * Listener arguments for mail transport events
+ */
+export type MailTransportEventMap = TransportEventMap & {
+  [MailTransportEvent.MAIL]: [mail: Mail];
+  [MailTransportEvent.MAIL_SENT]: [mail: SentMail];
+  [MailTransportEvent.IDENTITY_CONFIRMED]: [identity: IdentityConfirmedEvent];
+  [MailTransportEvent.RESYNC_REQUIRED]: [event: ResyncRequiredEvent];
+};
+
 /**
  * Abstract transport interface
  */
@@ -76,20 +187,41 @@ export interface Transport {
   send(message: TransportMessage): Promise<TransportResponse>;
   
   // Event handling
-  on(event: TransportEvent | string, handler: Function): void;
-  off(event: TransportEvent | string, handler: Function): void;
-  once(event: TransportEvent | string, handler: Function): void;
+  on<E extends keyof TransportEventMap>(event: E, handler: EventListener<TransportEventMap[E]>): Unsubscribe;
+  off<E extends keyof TransportEventMap>(event: E, handler: EventListener<TransportEventMap[E]>): void;
+  once<E extends keyof TransportEventMap>(event: E, handler: EventListener<TransportEventMap[E]>): Unsubscribe;
   
   // Configuration
   getConfig(): TransportConfig;
   updateConfig(config: Partial<TransportConfig>): void;
 }
 
+/**
+ * Options for MailTransport.sendMailTo
+ */
+export interface SendMailOptions {
+  messageId?: string;
+  inReplyTo?: string;
+  /**
+   * The References chain of the mail being replied to; inReplyTo is
+   * appended, see getReplyReferences
+   */
+  references?: string[];
+  timeout?: number;
+  headers?: Record<string, string>;
+}
+
 /**
  * Mail transport extends base transport with mail-specific functionality
  */
 export interface MailTransport extends Transport {
   sendMail(mail: Mail): Promise<Mail>;
+  sendMailTo(to: string, subject: string, body: string, options?: SendMailOptions): Promise<Mail>;
   onMail(handler: (mail: Mail) => void): void;
   offMail(handler: (mail: Mail) => void): void;
+
+  // Identity
+  getUserEmail(): string | undefined;
+  getUiAgentEmail(): string | undefined;
+  setUiAgentEmail(email: string): void;
 }
\ No newline at end of file
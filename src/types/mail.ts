@@ -11,10 +11,14 @@ export interface Mail {
   timestamp?: string;
   message_id?: string;
   in_reply_to?: string;
+  /**
+   * Message ids of the earlier mail in the conversation, oldest first
+   */
+  references?: string[];
 }
 
 export interface WebSocketMessage {
-  type: 'mail' | 'status' | 'error' | 'auth' | 'ping' | 'pong' | 'identity_confirmed' | 'mail_notification';
+  type: 'mail' | 'status' | 'error' | 'auth' | 'ping' | 'pong' | 'identity_confirmed' | 'mail_notification' | 'mail_sent';
   data?: any;
   correlation_id?: string;
   timestamp?: string;
@@ -26,6 +30,32 @@ export interface WebSocketMessage {
   subject?: string;
   body?: any;
   in_reply_to?: string;
+  status?: MailSentStatus | string;
+}
+
+/**
+ * Status carried by a mail_sent confirmation
+ */
+export interface MailSentStatus {
+  status: string;
+  message_id?: string;
+  error?: string;
+}
+
+/**
+ * Server confirmation that a sent mail was accepted
+ */
+export interface MailDeliveryReceipt {
+  message_id: string;
+  server_message_id?: string;
+  status: string;
+}
+
+/**
+ * Mail returned by sendMail once the server has acknowledged it
+ */
+export interface SentMail extends Mail {
+  delivery: MailDeliveryReceipt;
 }
 
 export interface MailMessage {
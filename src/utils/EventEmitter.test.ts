@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { EventEmitter } from './EventEmitter.js';
+
+type TestEvents = {
+  data: [value: number];
+  pair: [key: string, value: number];
+  done: [];
+};
+
+describe('EventEmitter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('passes typed arguments and unsubscribes through the returned function', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const seen: Array<[string, number]> = [];
+    const unsubscribe = emitter.on('pair', (key, value) => seen.push([key, value]));
+
+    expect(emitter.emit('pair', 'a', 1)).toBe(true);
+    unsubscribe();
+    expect(emitter.emit('pair', 'b', 2)).toBe(false);
+
+    expect(seen).toEqual([['a', 1]]);
+    expect(emitter.listenerCount('pair')).toBe(0);
+  });
+
+  it('calls once() listeners a single time', () => {
+    const emitter = new EventEmitter<TestEvents>();
+    const listener = vi.fn();
+    emitter.once('done', listener);
+
+    emitter.emit('done');
+    emitter.emit('done');
+
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it('keeps calling the other listeners when one throws or unsubscribes', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const emitter = new EventEmitter<TestEvents>();
+    const calls: string[] = [];
+    const unsubscribe = emitter.on('data', () => {
+      calls.push('first');
+      unsubscribe();
+    });
+    emitter.on('data', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('data', () => calls.push('third'));
+
+    emitter.emit('data', 1);
+
+    expect(calls).toEqual(['first', 'third']);
+    expect(console.error).toHaveBeenCalledOnce();
+  });
+
+  describe('waitFor', () => {
+    it('resolves with the arguments of the next event that passes the filter', async () => {
+      const emitter = new EventEmitter<TestEvents>();
+      const waiting = emitter.waitFor('pair', { filter: key => key === 'b' });
+
+      emitter.emit('pair', 'a', 1);
+      emitter.emit('pair', 'b', 2);
+
+      await expect(waiting).resolves.toEqual(['b', 2]);
+      expect(emitter.listenerCount('pair')).toBe(0);
+    });
+
+    it('rejects after the timeout and removes its listener', async () => {
+      const emitter = new EventEmitter<TestEvents>();
+
+      await expect(emitter.waitFor('done', { timeout: 10 })).rejects.toThrow("Timed out after 10ms waiting for 'done'");
+      expect(emitter.listenerCount('done')).toBe(0);
+    });
+
+    it('rejects when the signal aborts', async () => {
+      const emitter = new EventEmitter<TestEvents>();
+      const controller = new AbortController();
+      const waiting = emitter.waitFor('done', { signal: controller.signal });
+
+      controller.abort();
+
+      await expect(waiting).rejects.toThrow("Aborted waiting for 'done'");
+      expect(emitter.listenerCount('done')).toBe(0);
+    });
+  });
+
+  describe('iterate', () => {
+    it('buffers events between reads and unsubscribes on break', async () => {
+      const emitter = new EventEmitter<TestEvents>();
+      const values: number[] = [];
+      const iterator = emitter.iterate('data');
+
+      emitter.emit('data', 1);
+      emitter.emit('data', 2);
+      setTimeout(() => emitter.emit('data', 3), 5);
+
+      for await (const [value] of iterator) {
+        values.push(value);
+        if (value === 3) {
+          break;
+        }
+      }
+
+      expect(values).toEqual([1, 2, 3]);
+      expect(emitter.listenerCount('data')).toBe(0);
+    });
+
+    it('ends when the signal aborts', async () => {
+      const emitter = new EventEmitter<TestEvents>();
+      const controller = new AbortController();
+      const iterator = emitter.iterate('data', { signal: controller.signal });
+
+      const next = iterator.next();
+      controller.abort();
+
+      await expect(next).resolves.toEqual({ value: undefined, done: true });
+      expect(emitter.listenerCount('data')).toBe(0);
+    });
+  });
+});
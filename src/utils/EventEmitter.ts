@@ -1,26 +1,59 @@
 /**
- * Browser-compatible EventEmitter implementation
+ * Browser-compatible, strongly typed EventEmitter implementation
  */
 
-export class EventEmitter {
-  private events: Map<string, Function[]> = new Map();
+/**
+ * Maps each event name to the tuple of arguments its listeners receive
+ */
+export type EventMap = Record<string, unknown[]>;
+
+export type EventListener<Args extends unknown[]> = (...args: Args) => void;
+
+/**
+ * Removes the listener it was returned for
+ */
+export type Unsubscribe = () => void;
+
+export interface WaitForOptions<Args extends unknown[]> {
+  /**
+   * Reject if the event hasn't fired within this many ms
+   */
+  timeout?: number;
+  signal?: AbortSignal;
+  /**
+   * Only settle on events whose arguments pass the filter
+   */
+  filter?: (...args: Args) => boolean;
+}
+
+export interface IterateOptions {
+  /**
+   * Ends the iteration when aborted
+   */
+  signal?: AbortSignal;
+}
+
+export class EventEmitter<Events extends EventMap = Record<string, any[]>> {
+  private events: Map<keyof Events, EventListener<any>[]> = new Map();
 
   /**
    * Add event listener
    */
-  on(event: string, listener: Function): this {
+  on<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): Unsubscribe {
     if (!this.events.has(event)) {
       this.events.set(event, []);
     }
     this.events.get(event)!.push(listener);
-    return this;
+    return () => {
+      this.off(event, listener);
+    };
   }
 
   /**
    * Add one-time event listener
    */
-  once(event: string, listener: Function): this {
-    const onceWrapper = (...args: any[]) => {
+  once<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): Unsubscribe {
+    const onceWrapper = (...args: Events[E]) => {
       this.off(event, onceWrapper);
       listener.apply(this, args);
     };
@@ -30,7 +63,7 @@ export class EventEmitter {
   /**
    * Remove event listener
    */
-  off(event: string, listener: Function): this {
+  off<E extends keyof Events>(event: E, listener: EventListener<Events[E]>): this {
     const listeners = this.events.get(event);
     if (listeners) {
       const index = listeners.indexOf(listener);
@@ -47,14 +80,15 @@ export class EventEmitter {
   /**
    * Emit event
    */
-  emit(event: string, ...args: any[]): boolean {
+  emit<E extends keyof Events>(event: E, ...args: Events[E]): boolean {
     const listeners = this.events.get(event);
     if (listeners && listeners.length > 0) {
-      listeners.forEach(listener => {
+      // Copy so listeners that unsubscribe don't skip their neighbours
+      [...listeners].forEach(listener => {
         try {
           listener.apply(this, args);
         } catch (error) {
-          console.error(`Error in event listener for '${event}':`, error);
+          console.error(`Error in event listener for '${String(event)}':`, error);
         }
       });
       return true;
@@ -62,11 +96,117 @@ export class EventEmitter {
     return false;
   }
 
+  /**
+   * Resolve with the arguments of the next matching event
+   */
+  waitFor<E extends keyof Events>(event: E, options: WaitForOptions<Events[E]> = {}): Promise<Events[E]> {
+    const { timeout, signal, filter } = options;
+
+    return new Promise<Events[E]>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new Error(`Aborted waiting for '${String(event)}'`));
+        return;
+      }
+
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const onAbort = () => {
+        cleanup();
+        reject(new Error(`Aborted waiting for '${String(event)}'`));
+      };
+
+      const unsubscribe = this.on(event, (...args: Events[E]) => {
+        try {
+          if (filter && !filter(...args)) {
+            return;
+          }
+        } catch (error) {
+          cleanup();
+          reject(error);
+          return;
+        }
+        cleanup();
+        resolve(args);
+      });
+
+      const cleanup = () => {
+        unsubscribe();
+        if (timer !== undefined) {
+          clearTimeout(timer);
+        }
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(new Error(`Timed out after ${timeout}ms waiting for '${String(event)}'`));
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Iterate over event arguments with `for await`
+   * Events are buffered between reads; breaking out of the loop unsubscribes
+   */
+  iterate<E extends keyof Events>(event: E, options: IterateOptions = {}): AsyncIterableIterator<Events[E]> {
+    const { signal } = options;
+    const buffer: Events[E][] = [];
+    const waiting: Array<(result: IteratorResult<Events[E]>) => void> = [];
+    let done = false;
+
+    const unsubscribe = this.on(event, (...args: Events[E]) => {
+      const next = waiting.shift();
+      if (next) {
+        next({ value: args, done: false });
+      } else {
+        buffer.push(args);
+      }
+    });
+
+    const finish = () => {
+      if (done) {
+        return;
+      }
+      done = true;
+      unsubscribe();
+      signal?.removeEventListener('abort', finish);
+      waiting.splice(0).forEach(next => next({ value: undefined, done: true }));
+    };
+
+    if (signal?.aborted) {
+      finish();
+    } else {
+      signal?.addEventListener('abort', finish, { once: true });
+    }
+
+    return {
+      next: (): Promise<IteratorResult<Events[E]>> => {
+        if (buffer.length > 0) {
+          return Promise.resolve({ value: buffer.shift()!, done: false });
+        }
+        if (done) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => waiting.push(resolve));
+      },
+      return: (): Promise<IteratorResult<Events[E]>> => {
+        finish();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      }
+    };
+  }
+
   /**
    * Remove all listeners for an event
    */
-  removeAllListeners(event?: string): this {
-    if (event) {
+  removeAllListeners(event?: keyof Events): this {
+    if (event !== undefined) {
       this.events.delete(event);
     } else {
       this.events.clear();
@@ -77,14 +217,14 @@ export class EventEmitter {
   /**
    * Get listeners for an event
    */
-  listeners(event: string): Function[] {
+  listeners<E extends keyof Events>(event: E): EventListener<Events[E]>[] {
     return [...(this.events.get(event) || [])];
   }
 
   /**
    * Get number of listeners for an event
    */
-  listenerCount(event: string): number {
+  listenerCount(event: keyof Events): number {
     return this.events.get(event)?.length || 0;
   }
-}
\ No newline at end of file
+}
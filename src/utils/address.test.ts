@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_UI_AGENT_EMAIL, USER_EMAIL_DOMAIN } from '../transport/constants.js';
+import {
+  AddressClass,
+  classifyAddress,
+  formatAddress,
+  formatAddressList,
+  getAddress,
+  isAgentAddress,
+  isSameAddress,
+  isValidAddress,
+  parseAddress,
+  parseAddressList,
+  quoteDisplayName,
+  unquoteDisplayName
+} from './address.js';
+
+describe('parseAddress', () => {
+  it('parses bare, named and legacy comment forms', () => {
+    expect(parseAddress('agent@mindswarm.ai')).toEqual({ address: 'agent@mindswarm.ai', local: 'agent', domain: 'mindswarm.ai' });
+    expect(parseAddress('"Agent, Smith" <agent@mindswarm.ai>')).toMatchObject({ name: 'Agent, Smith', address: 'agent@mindswarm.ai' });
+    expect(parseAddress('agent@mindswarm.ai (Agent Smith)')).toMatchObject({ name: 'Agent Smith', address: 'agent@mindswarm.ai' });
+  });
+
+  it('decodes encoded display names and accepts quoted local parts and domain literals', () => {
+    expect(parseAddress('=?UTF-8?Q?J=C3=BCrgen?= <jm@example.com>')?.name).toBe('Jürgen');
+    expect(parseAddress('"john doe"@example.com')?.local).toBe('"john doe"');
+    expect(parseAddress('admin@[192.168.0.1]')?.domain).toBe('[192.168.0.1]');
+  });
+
+  it('returns null for invalid addresses and lists', () => {
+    for (const value of ['', 'agent', 'agent@', '@mindswarm.ai', 'a b@mindswarm.ai', 'a@x, b@y']) {
+      expect(parseAddress(value)).toBeNull();
+      expect(isValidAddress(value)).toBe(false);
+    }
+  });
+});
+
+describe('parseAddressList', () => {
+  it('splits on commas outside quotes, comments and brackets, flattening groups', () => {
+    const list = parseAddressList('"Smith, A" <a@x.ai>, b@x.ai (Bee, B), Team: c@x.ai, d@x.ai;, invalid');
+
+    expect(list.map(address => address.address)).toEqual(['a@x.ai', 'b@x.ai', 'c@x.ai', 'd@x.ai']);
+    expect(list[1].name).toBe('Bee, B');
+  });
+});
+
+describe('formatting', () => {
+  it('quotes display names only when they contain specials', () => {
+    expect(formatAddress({ name: 'Agent Smith', address: 'a@x.ai' })).toBe('Agent Smith <a@x.ai>');
+    expect(formatAddress({ name: 'Smith, "A"', address: 'a@x.ai' })).toBe('"Smith, \\"A\\"" <a@x.ai>');
+    expect(formatAddressList([{ address: 'a@x.ai' }, { name: 'B', address: 'b@x.ai' }])).toBe('a@x.ai, B <b@x.ai>');
+  });
+
+  it('round-trips display names through quoting', () => {
+    for (const name of ['Plain', 'Smith, A', 'Back\\slash "quoted"']) {
+      expect(unquoteDisplayName(quoteDisplayName(name))).toBe(name);
+      expect(parseAddress(formatAddress({ name, address: 'a@x.ai' }))?.name).toBe(name);
+    }
+    expect(unquoteDisplayName('  "Spaced"  ')).toBe('Spaced');
+  });
+});
+
+describe('comparison and classes', () => {
+  it('compares addresses ignoring display names and case', () => {
+    expect(getAddress('Agent <Agent@MindSwarm.ai>')).toBe('Agent@MindSwarm.ai');
+    expect(getAddress('  not an address ')).toBe('not an address');
+    expect(isSameAddress('Agent <Agent@MindSwarm.ai>', 'agent@mindswarm.ai')).toBe(true);
+    expect(isSameAddress('a@mindswarm.ai', 'b@mindswarm.ai')).toBe(false);
+  });
+
+  it('classifies addresses by domain, subdomains included', () => {
+    expect(classifyAddress(`alice@${USER_EMAIL_DOMAIN}`)).toBe(AddressClass.USER);
+    expect(classifyAddress(DEFAULT_UI_AGENT_EMAIL)).toBe(AddressClass.UI_AGENT);
+    expect(classifyAddress('ui@ui-agents.ltngt.ai')).toBe(AddressClass.UI_AGENT);
+    expect(classifyAddress('planner@swarm.ltngt.ai')).toBe(AddressClass.SWARM_AGENT);
+    expect(classifyAddress('someone@notltngt.ai')).toBe(AddressClass.EXTERNAL);
+    expect(classifyAddress('not an address')).toBe(AddressClass.EXTERNAL);
+    expect(isAgentAddress('planner@swarm.ltngt.ai')).toBe(true);
+    expect(isAgentAddress(`alice@${USER_EMAIL_DOMAIN}`)).toBe(false);
+  });
+});
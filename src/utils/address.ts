@@ -0,0 +1,273 @@
+/**
+ * RFC 5322 email addresses and Mind-Swarm address classes
+ */
+
+import {
+  BASE_DOMAIN,
+  DEFAULT_UI_AGENT_EMAIL,
+  UI_AGENT_EMAIL_DOMAIN,
+  USER_EMAIL_DOMAIN
+} from '../transport/constants.js';
+import { decodeHeaderValue } from './rfc2047.js';
+
+const ATOM = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]+";
+const DOT_ATOM = `${ATOM}(?:\\.${ATOM})*`;
+const QUOTED_LOCAL = '"(?:[^"\\\\\\r\\n]|\\\\.)*"';
+const ADDR_SPEC = new RegExp(`^(${DOT_ATOM}|${QUOTED_LOCAL})@(${DOT_ATOM}|\\[[^\\[\\]\\\\\\s]*\\])$`);
+
+/**
+ * Domains of the UI agents: the server-assigned one and the default
+ */
+const UI_AGENT_DOMAINS = [UI_AGENT_EMAIL_DOMAIN, DEFAULT_UI_AGENT_EMAIL.split('@')[1]];
+
+/**
+ * A parsed mailbox such as `"Agent Name" <agent@domain>`
+ */
+export interface EmailAddress {
+  /**
+   * Display name, unquoted and with encoded words decoded
+   */
+  name?: string;
+  /**
+   * The bare addr-spec, e.g. agent@domain
+   */
+  address: string;
+  local: string;
+  domain: string;
+}
+
+/**
+ * Who an address belongs to, by its domain
+ */
+export enum AddressClass {
+  USER = 'user',
+  UI_AGENT = 'ui_agent',
+  SWARM_AGENT = 'swarm_agent',
+  EXTERNAL = 'external'
+}
+
+/**
+ * Parse a single mailbox, or null if the value isn't exactly one valid address
+ */
+export function parseAddress(value: string): EmailAddress | null {
+  const mailboxes = splitMailboxes(value);
+  return mailboxes.length === 1 ? parseMailbox(mailboxes[0]) : null;
+}
+
+/**
+ * Parse an address list such as a To field
+ * Groups are flattened and invalid entries skipped
+ */
+export function parseAddressList(value: string): EmailAddress[] {
+  return splitMailboxes(value)
+    .map(parseMailbox)
+    .filter((address): address is EmailAddress => address !== null);
+}
+
+/**
+ * Check whether a value is a single valid address, with or without a
+ * display name
+ */
+export function isValidAddress(value: string): boolean {
+  return parseAddress(value) !== null;
+}
+
+/**
+ * Format a mailbox, quoting the display name when it needs it
+ */
+export function formatAddress(address: Pick<EmailAddress, 'name' | 'address'>): string {
+  return address.name ? `${quoteDisplayName(address.name)} <${address.address}>` : address.address;
+}
+
+/**
+ * Format an address list
+ */
+export function formatAddressList(addresses: Array<Pick<EmailAddress, 'name' | 'address'>>): string {
+  return addresses.map(formatAddress).join(', ');
+}
+
+/**
+ * Get the bare address of a mailbox, or the trimmed value if it doesn't parse
+ */
+export function getAddress(value: string): string {
+  return parseAddress(value)?.address ?? value.trim();
+}
+
+/**
+ * Compare two mailboxes by address, ignoring display names and case
+ */
+export function isSameAddress(a: string | EmailAddress, b: string | EmailAddress): boolean {
+  return addressKey(a) === addressKey(b);
+}
+
+/**
+ * Quote a display name that contains RFC 5322 specials
+ */
+export function quoteDisplayName(name: string): string {
+  return /[()<>\[\]:;@\\,."]/.test(name) ? `"${name.replace(/["\\]/g, '\\$&')}"` : name;
+}
+
+/**
+ * Strip surrounding whitespace, quotes and backslash escapes from a display name
+ */
+export function unquoteDisplayName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed.length >= 2 && trimmed.startsWith('"') && trimmed.endsWith('"')) {
+    return trimmed.slice(1, -1).replace(/\\(.)/g, '$1');
+  }
+  return trimmed;
+}
+
+/**
+ * Classify an address as a user, the UI agent, another swarm agent or
+ * someone outside Mind-Swarm
+ */
+export function classifyAddress(value: string | EmailAddress): AddressClass {
+  const address = typeof value === 'string' ? parseAddress(value) : value;
+  if (!address) {
+    return AddressClass.EXTERNAL;
+  }
+
+  const domain = address.domain.toLowerCase();
+  if (isInDomain(domain, USER_EMAIL_DOMAIN)) {
+    return AddressClass.USER;
+  }
+  if (UI_AGENT_DOMAINS.some(uiDomain => isInDomain(domain, uiDomain))) {
+    return AddressClass.UI_AGENT;
+  }
+  if (isInDomain(domain, BASE_DOMAIN)) {
+    return AddressClass.SWARM_AGENT;
+  }
+  return AddressClass.EXTERNAL;
+}
+
+/**
+ * Check whether an address belongs to the UI agent or a swarm agent
+ */
+export function isAgentAddress(value: string | EmailAddress): boolean {
+  const addressClass = classifyAddress(value);
+  return addressClass === AddressClass.UI_AGENT || addressClass === AddressClass.SWARM_AGENT;
+}
+
+/**
+ * Parse one mailbox: `name <addr>`, a bare addr, or the legacy
+ * `addr (name)` form
+ */
+function parseMailbox(text: string): EmailAddress | null {
+  let name: string | undefined;
+  let spec: string;
+
+  const angle = /^(.*?)<([^<>]*)>\s*$/s.exec(stripComments(text).trim());
+  if (angle) {
+    name = unquoteDisplayName(angle[1]);
+    spec = angle[2].trim();
+  } else {
+    const comment = /\(((?:[^()\\]|\\.)*)\)/.exec(text);
+    name = comment ? comment[1].replace(/\\(.)/g, '$1').trim() : undefined;
+    spec = stripComments(text).trim();
+  }
+
+  const match = ADDR_SPEC.exec(spec);
+  if (!match) {
+    return null;
+  }
+
+  const address: EmailAddress = { address: spec, local: match[1], domain: match[2] };
+  if (name) {
+    address.name = decodeHeaderValue(name);
+  }
+  return address;
+}
+
+/**
+ * Split an address list into mailbox texts on commas outside quotes,
+ * comments and angle brackets, dropping group names and terminators
+ */
+function splitMailboxes(value: string): string[] {
+  const mailboxes: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+  let commentDepth = 0;
+
+  const flush = () => {
+    if (current.trim()) {
+      mailboxes.push(current);
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && (inQuotes || commentDepth > 0)) {
+      current += char + (value[++i] ?? '');
+      continue;
+    }
+
+    if (inQuotes) {
+      inQuotes = char !== '"';
+    } else if (commentDepth > 0) {
+      commentDepth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === '(') {
+      commentDepth = 1;
+    } else if (char === '<') {
+      inAngle = true;
+    } else if (char === '>') {
+      inAngle = false;
+    } else if (!inAngle && char === ':') {
+      // "Team: a@x, b@y;" - the group name isn't a mailbox
+      current = '';
+      continue;
+    } else if (!inAngle && (char === ',' || char === ';')) {
+      flush();
+      continue;
+    }
+    current += char;
+  }
+
+  flush();
+  return mailboxes;
+}
+
+/**
+ * Remove comments outside quoted strings
+ */
+function stripComments(text: string): string {
+  let result = '';
+  let inQuotes = false;
+  let depth = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && (inQuotes || depth > 0)) {
+      result += depth > 0 ? '' : char + (text[i + 1] ?? '');
+      i++;
+    } else if (depth > 0) {
+      depth += char === '(' ? 1 : char === ')' ? -1 : 0;
+    } else if (char === '(' && !inQuotes) {
+      depth = 1;
+    } else {
+      if (char === '"') {
+        inQuotes = !inQuotes;
+      }
+      result += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Comparable form of an address
+ */
+function addressKey(value: string | EmailAddress): string {
+  return (typeof value === 'string' ? getAddress(value) : value.address).toLowerCase();
+}
+
+/**
+ * Check whether a domain is the given one or a subdomain of it
+ */
+function isInDomain(domain: string, parent: string): boolean {
+  return domain === parent || domain.endsWith(`.${parent}`);
+}
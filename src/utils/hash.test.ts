@@ -0,0 +1,26 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { hasSyncSha256, sha256Hex, sha256HexAsync } from './hash.js';
+
+describe('sha256Hex', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it('matches the standard test vectors', async () => {
+    expect(hasSyncSha256()).toBe(true);
+    expect(sha256Hex('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    await expect(sha256HexAsync('abc')).resolves.toBe(sha256Hex('abc'));
+  });
+
+  it('falls back to WebCrypto in browsers and refuses to hash synchronously', async () => {
+    vi.stubGlobal('window', {});
+    const browser = await import('./hash.js');
+    const text = 'Größenänderung 🚀';
+
+    expect(browser.hasSyncSha256()).toBe(false);
+    expect(() => browser.sha256Hex(text)).toThrow('use sha256HexAsync');
+    await expect(browser.sha256HexAsync(text)).resolves.toBe(sha256Hex(text));
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Content hashing with the platform's crypto: node:crypto in Node.js,
+ * WebCrypto in browsers
+ */
+
+// Browsers only offer an async digest, so node:crypto is loaded up front
+// wherever it exists to keep the synchronous variant available
+const nodeCrypto = typeof window === 'undefined'
+  ? await import('node:crypto').catch(() => null)
+  : null;
+
+/**
+ * Check whether sha256Hex can run here (Node.js, not browsers)
+ */
+export function hasSyncSha256(): boolean {
+  return nodeCrypto !== null;
+}
+
+/**
+ * SHA-256 digest of a UTF-8 string as lowercase hex, computed synchronously
+ * Throws where node:crypto is unavailable; use sha256HexAsync there
+ */
+export function sha256Hex(text: string): string {
+  if (!nodeCrypto) {
+    throw new Error('Synchronous SHA-256 needs node:crypto; use sha256HexAsync in browsers');
+  }
+  return nodeCrypto.createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * SHA-256 digest of a UTF-8 string as lowercase hex, on any platform
+ */
+export async function sha256HexAsync(text: string): Promise<string> {
+  if (nodeCrypto) {
+    return sha256Hex(text);
+  }
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -3,7 +3,19 @@
  */
 
 export * from './rfc2822.js';
+export * from './rfc2047.js';
+export * from './address.js';
 export * from './parseMarkdownJson.js';
 export * from './parseUIProtocol.js';
 export * from './config.js';
-export { EventEmitter } from './EventEmitter.js';
\ No newline at end of file
+export * from './hash.js';
+export * from './mime.js';
+export * from './threading.js';
+export { EventEmitter } from './EventEmitter.js';
+export type {
+  EventMap,
+  EventListener,
+  Unsubscribe,
+  WaitForOptions,
+  IterateOptions
+} from './EventEmitter.js';
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import type { Mail } from '../types/mail.js';
+import {
+  MultipartBuilder,
+  decodeBase64,
+  decodeQuotedPrintable,
+  encodeBase64,
+  encodeQuotedPrintable,
+  findMailPart,
+  getMailParts,
+  getPartText
+} from './mime.js';
+
+const decodeText = (encoded: string) => new TextDecoder().decode(decodeQuotedPrintable(encoded));
+
+describe('quoted-printable', () => {
+  it('round-trips spaces at every fold point', () => {
+    for (let length = 60; length <= 160; length++) {
+      for (const filler of [' ', '\t', 'a ', ' é']) {
+        const text = filler.repeat(Math.ceil(length / filler.length)).slice(0, length) + 'end';
+        expect(decodeText(encodeQuotedPrintable(text))).toBe(text);
+      }
+    }
+  });
+
+  it('round-trips line breaks, trailing whitespace and escapes', () => {
+    const text = 'a = b \r\ntab\t\r\n\r\nGrößenänderung 🚀 '.repeat(5);
+    expect(decodeText(encodeQuotedPrintable(text))).toBe(text);
+  });
+
+  it('keeps encoded lines within 76 characters', () => {
+    const encoded = encodeQuotedPrintable('x y '.repeat(100));
+    encoded.split('\r\n').forEach(line => expect(line.length).toBeLessThanOrEqual(76));
+  });
+
+  it('keeps whitespace before a soft break and drops padding after it', () => {
+    expect(decodeText('one two =\r\nthree')).toBe('one two three');
+    expect(decodeText('one=  \r\ntwo')).toBe('onetwo');
+  });
+
+  it('drops whitespace added before a hard break in transit', () => {
+    expect(decodeText('line one  \r\nline two')).toBe('line one\r\nline two');
+  });
+});
+
+describe('base64', () => {
+  it('round-trips bytes', () => {
+    const bytes = Uint8Array.from({ length: 300 }, (_, i) => i % 256);
+    expect(decodeBase64(encodeBase64(bytes))).toEqual(bytes);
+  });
+});
+
+describe('MultipartBuilder', () => {
+  it('builds a body that parses back into its parts', () => {
+    const mail: Mail = { from_address: 'agent@mindswarm.ai', to_address: 'user@mindswarm.ai', subject: 'Build', body: '' };
+    new MultipartBuilder('mixed')
+      .markdown('## Build finished')
+      .json({ status: 'success' })
+      .attachment('report.bin', Uint8Array.from([0, 1, 2]))
+      .applyTo(mail);
+
+    const parts = getMailParts(mail);
+    expect(parts.map(part => part.contentType)).toEqual(['text/markdown', 'application/json', 'application/octet-stream']);
+    expect(getPartText(parts[0])).toBe('## Build finished');
+    expect(JSON.parse(getPartText(findMailPart(mail, 'application/json')!))).toEqual({ status: 'success' });
+    expect(parts[2].filename).toBe('report.bin');
+    expect(parts[2].data).toEqual(Uint8Array.from([0, 1, 2]));
+  });
+});
@@ -0,0 +1,426 @@
+/**
+ * MIME (RFC 2045/2046) bodies: parts, multipart building and parsing,
+ * base64 and quoted-printable transfer encodings
+ */
+
+import type { Mail } from '../types/mail.js';
+import { MailHeaders, generateCorrelationId, getMailHeaders, setMailHeaders } from './rfc2822.js';
+
+/**
+ * Line length limit for encoded bodies, excluding CRLF
+ */
+const ENCODED_LINE_LENGTH = 76;
+
+export type TransferEncoding = '7bit' | '8bit' | 'base64' | 'quoted-printable';
+
+/**
+ * A decoded MIME entity; multipart entities carry their children in `parts`
+ */
+export interface MailPart {
+  /**
+   * Lowercase media type without parameters, e.g. application/json
+   */
+  contentType: string;
+  /**
+   * Content-Type parameters such as charset or boundary
+   */
+  params: Record<string, string>;
+  headers: MailHeaders;
+  /**
+   * Body after undoing the transfer encoding; empty for multipart entities
+   */
+  data: Uint8Array;
+  filename?: string;
+  parts?: MailPart[];
+}
+
+/**
+ * Content for a single part added to a MultipartBuilder
+ */
+export interface MailPartInit {
+  /**
+   * Media type, optionally with parameters; strings get charset=utf-8
+   */
+  contentType: string;
+  content: string | Uint8Array;
+  filename?: string;
+  /**
+   * Picked from the content when omitted
+   */
+  encoding?: TransferEncoding;
+  headers?: Record<string, string>;
+}
+
+/**
+ * A serialized MIME body and the Content-Type header that goes with it
+ */
+export interface MimeBody {
+  contentType: string;
+  body: string;
+}
+
+/**
+ * Builds multipart/mixed, multipart/alternative and other multipart bodies
+ */
+export class MultipartBuilder {
+  private entries: Array<MailPartInit | MultipartBuilder> = [];
+  private boundary: string;
+
+  constructor(private subtype: 'mixed' | 'alternative' | 'related' = 'mixed', boundary?: string) {
+    this.boundary = boundary ?? `=_part_${generateCorrelationId()}`;
+  }
+
+  /**
+   * Add a part, or a nested multipart such as an alternative inside mixed
+   */
+  add(part: MailPartInit | MultipartBuilder): this {
+    this.entries.push(part);
+    return this;
+  }
+
+  /**
+   * Add a text/plain part
+   */
+  text(text: string): this {
+    return this.add({ contentType: 'text/plain', content: text });
+  }
+
+  /**
+   * Add a text/markdown part
+   */
+  markdown(markdown: string): this {
+    return this.add({ contentType: 'text/markdown', content: markdown });
+  }
+
+  /**
+   * Add an application/json part
+   */
+  json(value: unknown): this {
+    return this.add({ contentType: 'application/json', content: JSON.stringify(value, null, 2) });
+  }
+
+  /**
+   * Add a file as an attachment
+   */
+  attachment(filename: string, content: string | Uint8Array, contentType = 'application/octet-stream'): this {
+    return this.add({ contentType, content, filename });
+  }
+
+  /**
+   * Serialize the parts
+   */
+  build(): MimeBody {
+    const sections = this.entries.map(entry => {
+      const { contentType, body, headers } = entry instanceof MultipartBuilder
+        ? { ...entry.build(), headers: new MailHeaders() }
+        : serializePart(entry);
+      headers.set('Content-Type', contentType);
+      return `${headers.toString()}\r\n\r\n${body}`;
+    });
+
+    return {
+      contentType: `multipart/${this.subtype}; boundary="${this.boundary}"`,
+      body: [
+        ...sections.map(section => `--${this.boundary}\r\n${section}`),
+        `--${this.boundary}--`
+      ].join('\r\n')
+    };
+  }
+
+  /**
+   * Use the parts as a mail's body, setting the MIME headers
+   */
+  applyTo<T extends Mail>(mail: T): T {
+    const { contentType, body } = this.build();
+    const headers = getMailHeaders(mail);
+    headers.set('MIME-Version', '1.0');
+    headers.set('Content-Type', contentType);
+    headers.delete('Content-Transfer-Encoding');
+    mail.body = body;
+    return setMailHeaders(mail, headers);
+  }
+}
+
+/**
+ * Parse a mail's body into its MIME structure
+ * Mail without a multipart Content-Type comes back as a single part
+ */
+export function parseMailBody(mail: Mail): MailPart {
+  const headers = getMailHeaders(mail);
+  return parseMimeEntity(headers, typeof mail.body === 'string' ? mail.body : JSON.stringify(mail.body));
+}
+
+/**
+ * Get the leaf parts of a mail in order, flattening nested multiparts
+ */
+export function getMailParts(mail: Mail): MailPart[] {
+  return flattenParts(parseMailBody(mail));
+}
+
+/**
+ * Find the first leaf part with a media type, e.g. application/json
+ */
+export function findMailPart(mail: Mail, contentType: string): MailPart | undefined {
+  const wanted = contentType.toLowerCase();
+  return getMailParts(mail).find(part => part.contentType === wanted);
+}
+
+/**
+ * Decode a part's data as text using its charset (UTF-8 by default)
+ */
+export function getPartText(part: MailPart): string {
+  const charset = part.params.charset || 'utf-8';
+  try {
+    return new TextDecoder(charset).decode(part.data);
+  } catch {
+    // Unknown charset label
+    return new TextDecoder().decode(part.data);
+  }
+}
+
+/**
+ * Parse a MIME entity from its headers and encoded body
+ */
+export function parseMimeEntity(headers: MailHeaders, body: string): MailPart {
+  const { type, params } = parseContentType(headers.get('Content-Type') ?? 'text/plain');
+  const part: MailPart = { contentType: type, params, headers, data: new Uint8Array() };
+
+  const filename = getFilename(headers, params);
+  if (filename) {
+    part.filename = filename;
+  }
+
+  if (type.startsWith('multipart/') && params.boundary) {
+    part.parts = splitMultipart(body, params.boundary).map(section => {
+      const separator = /\r?\n\r?\n/.exec(section);
+      return separator
+        ? parseMimeEntity(MailHeaders.parse(section.slice(0, separator.index)), section.slice(separator.index + separator[0].length))
+        : parseMimeEntity(new MailHeaders(), section.replace(/^\r?\n/, ''));
+    });
+    return part;
+  }
+
+  part.data = decodeTransfer(body, headers.get('Content-Transfer-Encoding'));
+  return part;
+}
+
+/**
+ * Split a Content-Type value into its media type and parameters
+ */
+export function parseContentType(value: string): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = value.split(';');
+  const params: Record<string, string> = {};
+  const paramPattern = /([^=\s]+)\s*=\s*("(?:[^"\\]|\\.)*"|[^;]*)/g;
+
+  for (const match of rest.join(';').matchAll(paramPattern)) {
+    const raw = match[2].trim();
+    params[match[1].toLowerCase()] = raw.startsWith('"') ? raw.slice(1, -1).replace(/\\(.)/g, '$1') : raw;
+  }
+
+  return { type: type.trim().toLowerCase(), params };
+}
+
+/**
+ * Base64-encode text (as UTF-8) or bytes, wrapped at 76 characters
+ */
+export function encodeBase64(content: string | Uint8Array): string {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return wrap(btoa(binary), ENCODED_LINE_LENGTH);
+}
+
+/**
+ * Decode base64, ignoring line breaks and other whitespace
+ */
+export function decodeBase64(encoded: string): Uint8Array {
+  const binary = atob(encoded.replace(/[^A-Za-z0-9+/=]/g, ''));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Quoted-printable encode text (as UTF-8) or bytes
+ * Line breaks in text are kept; long lines get soft breaks
+ */
+export function encodeQuotedPrintable(content: string | Uint8Array): string {
+  // Bytes have no line structure to keep, so CR and LF are escaped too
+  const lines = typeof content === 'string'
+    ? content.split(/\r?\n/).map(line => new TextEncoder().encode(line))
+    : [content];
+
+  return lines.map(bytes => {
+    let encoded = '';
+    bytes.forEach((byte, i) => {
+      // Trailing whitespace would be stripped in transit
+      const isTrailingSpace = i === bytes.length - 1 && (byte === 32 || byte === 9);
+      const printable = ((byte >= 33 && byte <= 126 && byte !== 61) || byte === 32 || byte === 9) && !isTrailingSpace;
+      encoded += printable ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    });
+    return softWrap(encoded);
+  }).join('\r\n');
+}
+
+/**
+ * Decode quoted-printable to bytes
+ */
+export function decodeQuotedPrintable(encoded: string): Uint8Array {
+  // Whitespace after a soft break's "=" is padding (RFC 2045 6.7); before a
+  // hard break it was added in transit, since encoders escape their own
+  const unwrapped = encoded
+    .replace(/=[ \t]*\r?\n/g, '')
+    .replace(/[ \t]+(?=\r?\n)/g, '')
+    .replace(/\r?\n/g, '\r\n');
+  const bytes: number[] = [];
+
+  // Escapes become bytes; anything else is taken as UTF-8 text
+  for (const token of unwrapped.split(/(=[0-9A-Fa-f]{2})/)) {
+    if (/^=[0-9A-Fa-f]{2}$/.test(token)) {
+      bytes.push(parseInt(token.slice(1), 16));
+    } else if (token) {
+      bytes.push(...new TextEncoder().encode(token));
+    }
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Leaf parts of an entity, depth first
+ */
+function flattenParts(part: MailPart): MailPart[] {
+  return part.parts ? part.parts.flatMap(flattenParts) : [part];
+}
+
+/**
+ * Headers and encoded body for a single part
+ */
+function serializePart(init: MailPartInit): MimeBody & { headers: MailHeaders } {
+  const headers = new MailHeaders(init.headers ?? {});
+  const isText = typeof init.content === 'string';
+  const { type, params } = parseContentType(init.contentType);
+  if (isText && !params.charset) {
+    params.charset = 'utf-8';
+  }
+
+  const encoding = init.encoding ?? pickEncoding(init.content);
+  headers.set('Content-Transfer-Encoding', encoding);
+  if (init.filename) {
+    headers.set('Content-Disposition', `attachment; filename="${init.filename.replace(/["\\]/g, '\\$&')}"`);
+  }
+
+  const contentType = [type, ...Object.entries(params).map(([key, value]) => `${key}="${value}"`)].join('; ');
+  return { contentType, body: encodeTransfer(init.content, encoding), headers };
+}
+
+/**
+ * Choose the lightest encoding that survives 7-bit transport
+ */
+function pickEncoding(content: string | Uint8Array): TransferEncoding {
+  if (typeof content !== 'string') {
+    return 'base64';
+  }
+  const isSevenBit = Array.from(content).every(char => char.charCodeAt(0) < 0x80);
+  const hasLongLine = content.split(/\r?\n/).some(line => line.length > 998);
+  return isSevenBit && !hasLongLine ? '7bit' : 'quoted-printable';
+}
+
+/**
+ * Apply a transfer encoding
+ */
+function encodeTransfer(content: string | Uint8Array, encoding: TransferEncoding): string {
+  switch (encoding) {
+    case 'base64':
+      return encodeBase64(content);
+    case 'quoted-printable':
+      return encodeQuotedPrintable(content);
+    default:
+      return (typeof content === 'string' ? content : new TextDecoder().decode(content)).replace(/\r?\n/g, '\r\n');
+  }
+}
+
+/**
+ * Undo a transfer encoding; unknown encodings are treated as 8bit
+ */
+function decodeTransfer(body: string, encoding: string | undefined): Uint8Array {
+  switch (encoding?.trim().toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return new TextEncoder().encode(body);
+  }
+}
+
+/**
+ * Get the sections between boundary lines, ignoring preamble and epilogue
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+  const delimiter = `--${boundary}`;
+  const sections: string[] = [];
+  let current: string[] | null = null;
+
+  for (const line of body.split(/\r?\n/)) {
+    const trimmed = line.trimEnd();
+    if (trimmed === delimiter || trimmed === `${delimiter}--`) {
+      if (current) {
+        sections.push(current.join('\r\n'));
+      }
+      if (trimmed === `${delimiter}--`) {
+        return sections;
+      }
+      current = [];
+    } else if (current) {
+      current.push(line);
+    }
+  }
+
+  // Unterminated multipart - keep what arrived
+  if (current && current.length > 0) {
+    sections.push(current.join('\r\n'));
+  }
+  return sections;
+}
+
+/**
+ * Filename from Content-Disposition, falling back to Content-Type's name
+ */
+function getFilename(headers: MailHeaders, params: Record<string, string>): string | undefined {
+  const disposition = headers.get('Content-Disposition');
+  const dispositionParams = disposition ? parseContentType(disposition).params : {};
+  return dispositionParams.filename || params.name;
+}
+
+/**
+ * Break a string into lines of at most `length` characters
+ */
+function wrap(text: string, length: number): string {
+  const lines: string[] = [];
+  for (let i = 0; i < text.length; i += length) {
+    lines.push(text.slice(i, i + length));
+  }
+  return lines.join('\r\n');
+}
+
+/**
+ * Insert quoted-printable soft breaks without splitting an =XX escape
+ */
+function softWrap(line: string): string {
+  const lines: string[] = [];
+  let rest = line;
+
+  while (rest.length > ENCODED_LINE_LENGTH) {
+    let cut = ENCODED_LINE_LENGTH - 1;
+    const escape = rest.lastIndexOf('=', cut);
+    if (escape > cut - 3) {
+      cut = escape;
+    }
+    lines.push(`${rest.slice(0, cut)}=`);
+    rest = rest.slice(cut);
+  }
+
+  lines.push(rest);
+  return lines.join('\r\n');
+}
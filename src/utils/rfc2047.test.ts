@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import {
+  decodeAddressHeader,
+  decodeHeaderField,
+  decodeHeaderValue,
+  encodeAddressHeader,
+  encodeHeaderField,
+  encodeHeaderValue
+} from './rfc2047.js';
+
+describe('encodeHeaderValue', () => {
+  it('leaves ASCII text alone', () => {
+    expect(encodeHeaderValue('Project List Response')).toBe('Project List Response');
+  });
+
+  it('encodes only the non-ASCII words, spaces between them included', () => {
+    const encoded = encodeHeaderValue('Status: Größe geändert today');
+
+    expect(encoded).toMatch(/^Status: =\?UTF-8\?[QB]\?[^ ]+\?= today$/);
+    expect(decodeHeaderValue(encoded)).toBe('Status: Größe geändert today');
+  });
+
+  it('uses the requested encoding', () => {
+    expect(encodeHeaderValue('café', { encoding: 'B' })).toBe('=?UTF-8?B?Y2Fmw6k=?=');
+    expect(encodeHeaderValue('café', { encoding: 'Q' })).toBe('=?UTF-8?Q?caf=C3=A9?=');
+  });
+
+  it('splits long text into words of at most 75 characters without breaking characters', () => {
+    const text = '日本語のテキスト'.repeat(10);
+    const words = encodeHeaderValue(text).split(' ');
+
+    expect(words.length).toBeGreaterThan(1);
+    words.forEach(word => expect(word.length).toBeLessThanOrEqual(75));
+    expect(decodeHeaderValue(words.join(' '))).toBe(text);
+  });
+
+  it('encodes text that would otherwise be read as an encoded word', () => {
+    const literal = '=?UTF-8?Q?not_encoded?=';
+
+    expect(encodeHeaderValue(literal)).not.toBe(literal);
+    expect(decodeHeaderValue(encodeHeaderValue(literal))).toBe(literal);
+  });
+});
+
+describe('decodeHeaderValue', () => {
+  it('decodes B and Q words in any case and other charsets', () => {
+    expect(decodeHeaderValue('=?utf-8?b?w6k=?= and =?UTF-8?q?caf=C3=A9_au_lait?=')).toBe('é and café au lait');
+    expect(decodeHeaderValue('=?ISO-8859-1?Q?Andr=E9?=')).toBe('André');
+  });
+
+  it('drops whitespace between adjacent encoded words but keeps it elsewhere', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?a?= =?UTF-8?Q?b?=')).toBe('ab');
+    expect(decodeHeaderValue('=?UTF-8?Q?a?= x =?UTF-8?Q?b?=')).toBe('a x b');
+  });
+
+  it('joins a character split across two words', () => {
+    expect(decodeHeaderValue('=?UTF-8?Q?=C3?= =?UTF-8?Q?=A9?=')).toBe('é');
+  });
+
+  it('ignores RFC 2231 language tags and keeps malformed words as text', () => {
+    expect(decodeHeaderValue('=?UTF-8*en?Q?hello?=')).toBe('hello');
+    expect(decodeHeaderValue('=?UTF-8?Q?bad=ZZ?=')).toBe('=?UTF-8?Q?bad=ZZ?=');
+  });
+});
+
+describe('address headers', () => {
+  it('encodes display names and leaves the addresses readable', () => {
+    const encoded = encodeAddressHeader('Jürgen Müller <jm@example.com>, "Ops" <ops@example.com>');
+
+    expect(encoded).toMatch(/^=\?UTF-8\?[QB]\?[^ ]+\?= <jm@example.com>, "Ops" <ops@example.com>$/);
+    expect(decodeAddressHeader(encoded)).toBe('Jürgen Müller <jm@example.com>, "Ops" <ops@example.com>');
+  });
+
+  it('quotes decoded names that contain specials', () => {
+    expect(decodeAddressHeader('=?UTF-8?Q?M=C3=BCller=2C_J=C3=BCrgen?= <jm@example.com>'))
+      .toBe('"Müller, Jürgen" <jm@example.com>');
+  });
+
+  it('picks address handling by field name', () => {
+    const name = 'Müller, Jürgen';
+
+    expect(decodeHeaderField('From', encodeHeaderField('From', `"${name}" <jm@example.com>`)))
+      .toBe(`"${name}" <jm@example.com>`);
+    expect(decodeHeaderField('Subject', encodeHeaderField('Subject', name))).toBe(name);
+  });
+});
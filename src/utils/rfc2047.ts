@@ -0,0 +1,319 @@
+/**
+ * RFC 2047 encoded words for non-ASCII header text
+ */
+
+import { quoteDisplayName, unquoteDisplayName } from './address.js';
+
+/**
+ * Maximum length of a single encoded word
+ */
+const MAX_ENCODED_WORD_LENGTH = 75;
+
+const ENCODED_WORD = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+
+/**
+ * Header fields whose values are address lists
+ */
+const ADDRESS_HEADERS = ['from', 'to', 'cc', 'bcc', 'reply-to', 'sender', 'resent-from', 'resent-to', 'resent-cc'];
+
+export type EncodedWordEncoding = 'B' | 'Q';
+
+export interface EncodeHeaderOptions {
+  /**
+   * Defaults to whichever is shorter for the text
+   */
+  encoding?: EncodedWordEncoding;
+}
+
+/**
+ * Encode the non-ASCII runs of an unstructured header value, e.g. a
+ * subject; ASCII words stay readable and ASCII-only values are unchanged
+ */
+export function encodeHeaderValue(value: string, options: EncodeHeaderOptions = {}): string {
+  if (!needsEncoding(value)) {
+    return value;
+  }
+
+  // Adjacent encoded words are joined without the space between them,
+  // so a run of non-ASCII words is encoded together with its spaces
+  const tokens = value.split(/([ \t]+)/);
+  const output: string[] = [];
+  let run: string[] = [];
+
+  const flushRun = () => {
+    if (run.length > 0) {
+      output.push(encodeWords(run.join(''), options.encoding));
+      run = [];
+    }
+  };
+
+  tokens.forEach((token, i) => {
+    const isSpace = i % 2 === 1;
+    if (!isSpace && needsEncoding(token)) {
+      run.push(token);
+    } else if (isSpace && run.length > 0 && needsEncoding(tokens[i + 1] ?? '')) {
+      run.push(token);
+    } else {
+      flushRun();
+      output.push(token);
+    }
+  });
+  flushRun();
+
+  return output.join('');
+}
+
+/**
+ * Encode the display names in an address list such as
+ * `Jürgen Müller <jm@example.com>, "Ops" <ops@example.com>`
+ */
+export function encodeAddressHeader(value: string, options: EncodeHeaderOptions = {}): string {
+  if (!needsEncoding(value)) {
+    return value;
+  }
+
+  return splitAddressList(value).map(address => {
+    const match = /^\s*(.*?)\s*<([^<>]*)>\s*$/.exec(address);
+    if (!match || !needsEncoding(match[1])) {
+      return address.trim();
+    }
+    // A phrase can't hold encoded words inside quotes, so encode it whole
+    return `${encodeWords(unquoteDisplayName(match[1]), options.encoding)} <${match[2]}>`;
+  }).join(', ');
+}
+
+/**
+ * Encode a header value, treating address fields as address lists
+ */
+export function encodeHeaderField(name: string, value: string, options: EncodeHeaderOptions = {}): string {
+  return isAddressHeader(name) ? encodeAddressHeader(value, options) : encodeHeaderValue(value, options);
+}
+
+/**
+ * Check whether a header field holds addresses
+ */
+export function isAddressHeader(name: string): boolean {
+  return ADDRESS_HEADERS.includes(name.toLowerCase());
+}
+
+/**
+ * Decode every encoded word in a header value
+ * Whitespace between adjacent encoded words is dropped, and words split
+ * mid-character by lenient encoders are joined before decoding
+ */
+export function decodeHeaderValue(value: string): string {
+  if (!value.includes('=?')) {
+    return value;
+  }
+
+  const output: string[] = [];
+  let pending: { charset: string; bytes: number[] } | null = null;
+  let lastIndex = 0;
+
+  const flushPending = () => {
+    if (pending) {
+      output.push(decodeBytes(pending.bytes, pending.charset));
+      pending = null;
+    }
+  };
+
+  for (const match of value.matchAll(ENCODED_WORD)) {
+    const between = value.slice(lastIndex, match.index);
+    lastIndex = match.index! + match[0].length;
+
+    const charset = match[1].split('*')[0].toLowerCase();
+    const bytes = match[2].toUpperCase() === 'B' ? decodeB(match[3]) : decodeQ(match[3]);
+    if (bytes === null) {
+      // Not a valid encoded word - keep it as text
+      flushPending();
+      output.push(between + match[0]);
+      continue;
+    }
+
+    if (pending && /^[ \t\r\n]*$/.test(between)) {
+      if (pending.charset === charset) {
+        pending.bytes.push(...bytes);
+      } else {
+        flushPending();
+        pending = { charset, bytes: [...bytes] };
+      }
+      continue;
+    }
+
+    flushPending();
+    output.push(between);
+    pending = { charset, bytes: [...bytes] };
+  }
+
+  flushPending();
+  output.push(value.slice(lastIndex));
+  return output.join('');
+}
+
+/**
+ * Decode the display names in an address list, quoting any that now
+ * contain commas or other specials so the list still parses
+ */
+export function decodeAddressHeader(value: string): string {
+  if (!value.includes('=?')) {
+    return value;
+  }
+
+  return splitAddressList(value).map(address => {
+    const match = /^\s*(.*?)\s*<([^<>]*)>\s*$/.exec(address);
+    if (!match || !match[1].includes('=?')) {
+      return decodeHeaderValue(address.trim());
+    }
+    return `${quoteDisplayName(decodeHeaderValue(match[1]))} <${match[2]}>`;
+  }).join(', ');
+}
+
+/**
+ * Decode a header value, treating address fields as address lists
+ */
+export function decodeHeaderField(name: string, value: string): string {
+  return isAddressHeader(name) ? decodeAddressHeader(value) : decodeHeaderValue(value);
+}
+
+/**
+ * Encode text as one or more UTF-8 encoded words separated by spaces,
+ * never splitting a character across words
+ */
+function encodeWords(text: string, encoding?: EncodedWordEncoding): string {
+  const chosen = encoding ?? (encodeChunkQ(text).length <= encodeChunkB(text).length ? 'Q' : 'B');
+  const prefix = `=?UTF-8?${chosen}?`;
+  const budget = MAX_ENCODED_WORD_LENGTH - prefix.length - 2;
+  const encode = chosen === 'Q' ? encodeChunkQ : encodeChunkB;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of text) {
+    if (chunk && encode(chunk + char).length > budget) {
+      words.push(`${prefix}${encode(chunk)}?=`);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) {
+    words.push(`${prefix}${encode(chunk)}?=`);
+  }
+
+  return words.join(' ');
+}
+
+/**
+ * Q encoding restricted to the characters allowed in phrases
+ */
+function encodeChunkQ(text: string): string {
+  let encoded = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    const char = String.fromCharCode(byte);
+    if (byte === 0x20) {
+      encoded += '_';
+    } else if (/[A-Za-z0-9!*+\-/]/.test(char)) {
+      encoded += char;
+    } else {
+      encoded += `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    }
+  }
+  return encoded;
+}
+
+/**
+ * Plain base64 of the UTF-8 bytes
+ */
+function encodeChunkB(text: string): string {
+  let binary = '';
+  for (const byte of new TextEncoder().encode(text)) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Bytes of a B-encoded word, or null if malformed
+ */
+function decodeB(text: string): number[] | null {
+  try {
+    return Array.from(atob(text), char => char.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Bytes of a Q-encoded word, or null if malformed
+ */
+function decodeQ(text: string): number[] | null {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '_') {
+      bytes.push(0x20);
+    } else if (char === '=') {
+      const hex = text.slice(i + 1, i + 3);
+      if (!/^[0-9A-Fa-f]{2}$/.test(hex)) {
+        return null;
+      }
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(char.charCodeAt(0) & 0xff);
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Decode bytes in a charset, falling back to UTF-8 for unknown labels
+ */
+function decodeBytes(bytes: number[], charset: string): string {
+  const data = Uint8Array.from(bytes);
+  try {
+    return new TextDecoder(charset).decode(data);
+  } catch {
+    return new TextDecoder().decode(data);
+  }
+}
+
+/**
+ * Non-ASCII text, or text that would be mistaken for an encoded word
+ */
+function needsEncoding(text: string): boolean {
+  return /[^\x20-\x7E\t]/.test(text) || /=\?[^?\s]+\?[BbQq]\?/.test(text);
+}
+
+/**
+ * Split an address list on commas outside quotes and angle brackets
+ */
+function splitAddressList(value: string): string[] {
+  const addresses: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let inAngle = false;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && inQuotes) {
+      current += char + (value[++i] ?? '');
+      continue;
+    }
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && char === '<') {
+      inAngle = true;
+    } else if (!inQuotes && char === '>') {
+      inAngle = false;
+    } else if (!inQuotes && !inAngle && char === ',') {
+      addresses.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  if (current.trim()) {
+    addresses.push(current);
+  }
+  return addresses;
+}
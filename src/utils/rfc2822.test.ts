@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import type { Mail } from '../types/mail.js';
+import {
+  MailHeaders,
+  foldHeaderLine,
+  formatRawMessage,
+  getMailHeaders,
+  parseHeaders,
+  parseRawMessage,
+  unfoldHeaderValue
+} from './rfc2822.js';
+
+function mailWithHeaders(headers: Record<string, string>): Mail {
+  return { from_address: 'agent@mindswarm.ai', to_address: 'user@mindswarm.ai', subject: 'Hi', body: '', headers };
+}
+
+describe('MailHeaders', () => {
+  it('looks fields up case-insensitively and keeps repeated ones', () => {
+    const headers = MailHeaders.parse('Received: one\r\nreceived: two\r\nSubject: Hi');
+
+    expect(headers.get('RECEIVED')).toBe('one');
+    expect(headers.getAll('Received')).toEqual(['one', 'two']);
+  });
+
+  it('unfolds continuation lines and round-trips a raw message', () => {
+    const raw = 'Subject: a long\r\n subject line\r\nX-Id: 1\r\n\r\nBody text';
+    const parsed = parseRawMessage(raw);
+
+    expect(parsed.headers.get('Subject')).toBe('a long subject line');
+    expect(formatRawMessage(parsed)).toBe(raw);
+  });
+
+  it('folds long lines to 78 characters', () => {
+    const headers = new MailHeaders({ Subject: 'word '.repeat(40).trim() });
+    const lines = headers.toString().split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach(line => expect(line.length).toBeLessThanOrEqual(78));
+  });
+
+  it('folds only at existing whitespace so unfolding restores the value', () => {
+    const value = `start ${'x'.repeat(100)} end`;
+    const folded = foldHeaderLine('Subject', value);
+
+    expect(folded).toBe(`Subject: start\r\n ${'x'.repeat(100)}\r\n end`);
+    expect(unfoldHeaderValue(folded)).toBe(`Subject: ${value}`);
+  });
+
+  it('leaves a token too long to fold on one line', () => {
+    const token = 'x'.repeat(1200);
+
+    expect(foldHeaderLine('X-Token', token)).toBe(`X-Token: ${token}`);
+  });
+
+  it('rejects invalid names when building headers', () => {
+    expect(() => new MailHeaders().append('X Weird', '1')).toThrow('Invalid header name');
+  });
+});
+
+describe('getMailHeaders', () => {
+  it('skips invalid names from received mail instead of throwing', () => {
+    const headers = getMailHeaders(mailWithHeaders({ 'X Weird': '1', 'X-Correlation-ID': 'abc' }));
+
+    expect(headers.get('x-correlation-id')).toBe('abc');
+    expect(headers.has('X Weird')).toBe(false);
+  });
+});
+
+describe('parseHeaders', () => {
+  it('keeps the last value of a repeated field', () => {
+    expect(parseHeaders('Received: one\r\nReceived: two\r\nSubject: Hi')).toEqual({ Received: 'two', Subject: 'Hi' });
+  });
+});
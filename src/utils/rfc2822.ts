@@ -3,6 +3,8 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import type { Mail } from '../types/mail.js';
+import { decodeHeaderField, encodeHeaderField } from './rfc2047.js';
 
 /**
  * Generate a unique message ID following RFC2822 format
@@ -20,30 +22,393 @@ export function generateCorrelationId(): string {
   return uuidv4();
 }
 
+/**
+ * Recommended maximum header line length, excluding CRLF (RFC 5322 2.1.1)
+ */
+export const HEADER_LINE_LENGTH = 78;
+
+/**
+ * Hard maximum header line length, excluding CRLF (RFC 5322 2.1.1)
+ */
+export const MAX_HEADER_LINE_LENGTH = 998;
+
+/**
+ * Anything MailHeaders can be built from: a raw header block, a record
+ * (array values become repeated fields), name/value pairs or another instance
+ */
+export type MailHeadersInit =
+  | string
+  | MailHeaders
+  | Record<string, string | readonly string[] | undefined>
+  | Iterable<readonly [string, string]>;
+
+interface HeaderField {
+  name: string;
+  value: string;
+  /**
+   * Folded text as parsed, reused on serialize until the field changes
+   */
+  raw?: string;
+}
+
+/**
+ * Ordered, case-insensitive header fields with support for repeated
+ * names such as Received or References
+ */
+export class MailHeaders implements Iterable<[string, string]> {
+  private fields: HeaderField[] = [];
+
+  constructor(init?: MailHeadersInit) {
+    if (init === undefined) {
+      return;
+    }
+
+    if (typeof init === 'string') {
+      this.fields = parseHeaderFields(init);
+    } else if (init instanceof MailHeaders) {
+      this.fields = init.fields.map(field => ({ ...field }));
+    } else if (isIterable(init)) {
+      for (const [name, value] of init) {
+        this.append(name, value);
+      }
+    } else {
+      for (const [name, value] of Object.entries(init)) {
+        if (value === undefined) {
+          continue;
+        }
+        const values: readonly string[] = typeof value === 'string' ? [value] : value;
+        values.forEach(v => this.append(name, v));
+      }
+    }
+  }
+
+  /**
+   * Parse a raw header block, unfolding continuation lines and decoding
+   * RFC 2047 encoded words
+   */
+  static parse(block: string): MailHeaders {
+    return new MailHeaders(block);
+  }
+
+  /**
+   * Get the first value of a field
+   */
+  get(name: string): string | undefined {
+    const key = name.toLowerCase();
+    return this.fields.find(field => field.name.toLowerCase() === key)?.value;
+  }
+
+  /**
+   * Get every value of a field in message order
+   */
+  getAll(name: string): string[] {
+    const key = name.toLowerCase();
+    return this.fields.filter(field => field.name.toLowerCase() === key).map(field => field.value);
+  }
+
+  /**
+   * Check whether a field is present
+   */
+  has(name: string): boolean {
+    return this.get(name) !== undefined;
+  }
+
+  /**
+   * Replace every value of a field with a single value
+   * The field keeps the position of its first occurrence
+   */
+  set(name: string, value: string): this {
+    const key = name.toLowerCase();
+    const index = this.fields.findIndex(field => field.name.toLowerCase() === key);
+    if (index === -1) {
+      return this.append(name, value);
+    }
+
+    this.fields[index] = { name, value: cleanHeaderValue(value) };
+    this.fields = this.fields.filter((field, i) => i <= index || field.name.toLowerCase() !== key);
+    return this;
+  }
+
+  /**
+   * Add a value, keeping any existing ones
+   */
+  append(name: string, value: string): this {
+    assertHeaderName(name);
+    this.fields.push({ name, value: cleanHeaderValue(value) });
+    return this;
+  }
+
+  /**
+   * Remove every value of a field
+   */
+  delete(name: string): boolean {
+    const key = name.toLowerCase();
+    const before = this.fields.length;
+    this.fields = this.fields.filter(field => field.name.toLowerCase() !== key);
+    return this.fields.length !== before;
+  }
+
+  /**
+   * Number of fields, counting repeated ones
+   */
+  get size(): number {
+    return this.fields.length;
+  }
+
+  /**
+   * Field names and values in message order
+   */
+  entries(): IterableIterator<[string, string]> {
+    return this.fields.map((field): [string, string] => [field.name, field.value])[Symbol.iterator]();
+  }
+
+  [Symbol.iterator](): IterableIterator<[string, string]> {
+    return this.entries();
+  }
+
+  /**
+   * Plain record for Mail.headers; repeated fields keep their first value
+   */
+  toRecord(): Record<string, string> {
+    const record: Record<string, string> = {};
+    const seen = new Set<string>();
+    for (const field of this.fields) {
+      const key = field.name.toLowerCase();
+      if (!seen.has(key)) {
+        seen.add(key);
+        record[field.name] = field.value;
+      }
+    }
+    return record;
+  }
+
+  toJSON(): Record<string, string> {
+    return this.toRecord();
+  }
+
+  /**
+   * Serialize as a CRLF-separated header block, encoding non-ASCII text
+   * as RFC 2047 encoded words and folding long lines
+   * Fields parsed from raw text are written back exactly as they were
+   */
+  toString(): string {
+    return this.fields
+      .map(field => field.raw ?? foldHeaderLine(field.name, encodeHeaderField(field.name, field.value)))
+      .join('\r\n');
+  }
+}
+
+/**
+ * Fold a header field at existing whitespace so lines stay within 78
+ * characters where possible; a run too long to fit is folded at the next
+ * whitespace after it, or left whole when there is none, so unfolding
+ * always gives back the original value
+ */
+export function foldHeaderLine(name: string, value: string, maxLength = HEADER_LINE_LENGTH): string {
+  let rest = `${name}: ${value}`;
+  const lines: string[] = [];
+  // Never leave the field name alone on the first line
+  let minBreak = name.length + 1;
+
+  while (rest.length > maxLength) {
+    // Fold before whitespace so the continuation line starts with it
+    let breakAt = lastWhitespace(rest, maxLength);
+    if (breakAt <= minBreak) {
+      breakAt = nextWhitespace(rest, Math.max(maxLength, minBreak + 1));
+    }
+    if (breakAt <= minBreak) {
+      break;
+    }
+
+    lines.push(rest.slice(0, breakAt));
+    rest = rest.slice(breakAt);
+    minBreak = 0;
+  }
+
+  lines.push(rest);
+  return lines.join('\r\n');
+}
+
+/**
+ * Index of the last space or tab at or before `from`, or -1
+ */
+function lastWhitespace(text: string, from: number): number {
+  return Math.max(text.lastIndexOf(' ', from), text.lastIndexOf('\t', from));
+}
+
+/**
+ * Index of the first space or tab at or after `from`, or -1
+ */
+function nextWhitespace(text: string, from: number): number {
+  const match = /[ \t]/.exec(text.slice(from));
+  return match ? from + match.index : -1;
+}
+
+/**
+ * Undo folding: drop each line break that is followed by whitespace
+ */
+export function unfoldHeaderValue(value: string): string {
+  return value.replace(/\r?\n(?=[ \t])/g, '');
+}
+
+/**
+ * Header block and body of a raw RFC 5322 message
+ */
+export interface ParsedMailMessage {
+  headers: MailHeaders;
+  body: string;
+}
+
+/**
+ * Split a raw message at the first empty line and parse its headers
+ * Accepts bare LF line endings as well as CRLF
+ */
+export function parseRawMessage(raw: string): ParsedMailMessage {
+  const separator = /\r?\n\r?\n/.exec(raw);
+  if (!separator) {
+    return { headers: MailHeaders.parse(raw), body: '' };
+  }
+  return {
+    headers: MailHeaders.parse(raw.slice(0, separator.index)),
+    body: raw.slice(separator.index + separator[0].length)
+  };
+}
+
+/**
+ * Serialize headers and body as a raw message with CRLF line endings
+ */
+export function formatRawMessage(message: { headers: MailHeadersInit; body: string }): string {
+  const headers = message.headers instanceof MailHeaders ? message.headers : new MailHeaders(message.headers);
+  return `${headers.toString()}\r\n\r\n${message.body}`;
+}
+
+const mailHeaderCache = new WeakMap<Record<string, string>, MailHeaders>();
+
+/**
+ * Store headers on a mail, keeping repeated fields for getMailHeaders
+ */
+export function setMailHeaders<T extends Mail>(mail: T, headers: MailHeaders): T {
+  const record = headers.toRecord();
+  mailHeaderCache.set(record, headers);
+  mail.headers = record;
+  return mail;
+}
+
+/**
+ * Get a mail's headers as MailHeaders
+ * Repeated fields survive when the mail came through setMailHeaders and
+ * its record hasn't been edited since. Fields with invalid names, e.g.
+ * from malformed server data, are skipped rather than thrown on
+ */
+export function getMailHeaders(mail: Mail): MailHeaders {
+  const record = mail.headers ?? {};
+  const cached = mailHeaderCache.get(record);
+  if (cached && isRecordOf(cached, record)) {
+    return cached;
+  }
+
+  const headers = new MailHeaders();
+  for (const [name, value] of Object.entries(record)) {
+    if (isValidHeaderName(name) && value !== undefined && value !== null) {
+      headers.append(name, String(value));
+    }
+  }
+  return headers;
+}
+
 /**
  * Format headers for RFC2822 compliance
  */
 export function formatHeaders(headers: Record<string, string>): string {
-  return Object.entries(headers)
-    .map(([key, value]) => `${key}: ${value}`)
-    .join('\r\n');
+  return new MailHeaders(headers).toString();
 }
 
 /**
  * Parse headers from RFC2822 format
+ * Repeated fields keep their last value; use MailHeaders to read them all
  */
 export function parseHeaders(headerString: string): Record<string, string> {
   const headers: Record<string, string> = {};
-  const lines = headerString.split('\r\n');
-  
-  for (const line of lines) {
-    const colonIndex = line.indexOf(':');
-    if (colonIndex > 0) {
-      const key = line.substring(0, colonIndex).trim();
-      const value = line.substring(colonIndex + 1).trim();
-      headers[key] = value;
-    }
+  for (const [name, value] of MailHeaders.parse(headerString)) {
+    headers[name] = value;
   }
-  
   return headers;
-}
\ No newline at end of file
+}
+
+/**
+ * Split a header block into fields, keeping each field's folded text
+ */
+function parseHeaderFields(block: string): HeaderField[] {
+  const fields: HeaderField[] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    if (current.length === 0) {
+      return;
+    }
+    const raw = current.join('\r\n');
+    current = [];
+
+    const colonIndex = raw.indexOf(':');
+    if (colonIndex <= 0) {
+      return;
+    }
+    const name = raw.slice(0, colonIndex).trim();
+    fields.push({
+      name,
+      value: decodeHeaderField(name, unfoldHeaderValue(raw.slice(colonIndex + 1)).trim()),
+      raw
+    });
+  };
+
+  for (const line of block.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && current.length > 0) {
+      current.push(line);
+    } else {
+      flush();
+      if (line !== '') {
+        current.push(line);
+      }
+    }
+  }
+  flush();
+
+  return fields;
+}
+
+/**
+ * Check for printable ASCII without colons, as RFC 5322 requires
+ */
+function isValidHeaderName(name: string): boolean {
+  return /^[!-9;-~]+$/.test(name);
+}
+
+/**
+ * Reject names that would corrupt the header block
+ */
+function assertHeaderName(name: string): void {
+  if (!isValidHeaderName(name)) {
+    throw new Error(`Invalid header name: ${JSON.stringify(name)}`);
+  }
+}
+
+/**
+ * Collapse line breaks in a value so it can't inject extra fields
+ */
+function cleanHeaderValue(value: string): string {
+  return unfoldHeaderValue(value).replace(/[\r\n]+/g, ' ').trim();
+}
+
+/**
+ * Check that a record still matches the headers it was made from
+ */
+function isRecordOf(headers: MailHeaders, record: Record<string, string>): boolean {
+  const original = headers.toRecord();
+  const names = Object.keys(record);
+  return names.length === Object.keys(original).length
+    && names.every(name => original[name] === record[name]);
+}
+
+function isIterable(value: object): value is Iterable<readonly [string, string]> {
+  return typeof (value as any)[Symbol.iterator] === 'function';
+}
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import type { Mail } from '../types/mail.js';
+import {
+  MailThreadIndex,
+  buildReferences,
+  flattenThread,
+  getReferences,
+  getReplyReferences,
+  normalizeSubject,
+  parseMessageIds,
+  threadMail
+} from './threading.js';
+import type { MailThread } from './threading.js';
+
+let minute = 0;
+
+/**
+ * Build a mail sent one minute after the previous one
+ */
+function mail(id: string, subject: string, replyTo?: string, references?: string[]): Mail {
+  const built: Mail = {
+    message_id: `<${id}@mindswarm.ai>`,
+    from_address: 'agent@mindswarm.ai',
+    to_address: 'user@mindswarm.ai',
+    subject,
+    body: '',
+    timestamp: new Date(Date.UTC(2026, 0, 1, 0, minute++)).toISOString()
+  };
+  if (replyTo) {
+    built.in_reply_to = `<${replyTo}@mindswarm.ai>`;
+  }
+  if (references) {
+    built.references = references.map(ref => `<${ref}@mindswarm.ai>`);
+  }
+  return built;
+}
+
+/**
+ * Thread shape as nested subjects, '?' for placeholders
+ */
+function shape(thread: MailThread): unknown {
+  const subject = thread.mail?.subject ?? '?';
+  return thread.children.length === 0 ? subject : [subject, thread.children.map(shape)];
+}
+
+describe('subjects and references', () => {
+  it('strips stacked reply prefixes', () => {
+    expect(normalizeSubject('Re: Response: RE[2]:  Project   Status')).toBe('Project Status');
+    expect(normalizeSubject('Recap')).toBe('Recap');
+  });
+
+  it('reads bracketed and bare message ids', () => {
+    expect(parseMessageIds('<a@x> <b@x>\r\n <c@x>')).toEqual(['<a@x>', '<b@x>', '<c@x>']);
+    expect(parseMessageIds('a@x b@x')).toEqual(['a@x', 'b@x']);
+  });
+
+  it('appends In-Reply-To to References unless it is already last', () => {
+    expect(buildReferences(['<a@x>'], '<b@x>')).toEqual(['<a@x>', '<b@x>']);
+    expect(buildReferences(['<a@x>', '<b@x>'], 'b@x')).toEqual(['<a@x>', '<b@x>']);
+    expect(buildReferences(undefined, '<a@x>')).toEqual(['<a@x>']);
+  });
+
+  it('reads References from the header when the mail has no references field', () => {
+    const reply: Mail = { ...mail('c', 'Re: Hi', 'b'), headers: { References: '<a@mindswarm.ai> <b@mindswarm.ai>' } };
+
+    expect(getReferences(reply)).toEqual(['<a@mindswarm.ai>', '<b@mindswarm.ai>']);
+    expect(getReplyReferences(reply)).toEqual(['<a@mindswarm.ai>', '<b@mindswarm.ai>', '<c@mindswarm.ai>']);
+  });
+});
+
+describe('threadMail', () => {
+  it('nests replies under their parents in date order', () => {
+    const threads = threadMail([
+      mail('a', 'Status'),
+      mail('b', 'Re: Status', 'a'),
+      mail('c', 'Other'),
+      mail('d', 'Re: Status', 'a'),
+      mail('e', 'Re: Re: Status', 'b', ['a', 'b'])
+    ]);
+
+    expect(threads.map(shape)).toEqual([
+      ['Status', [['Re: Status', ['Re: Re: Status']], 'Re: Status']],
+      'Other'
+    ]);
+    expect(flattenThread(threads[0]).map(m => m.message_id)).toEqual([
+      '<a@mindswarm.ai>', '<b@mindswarm.ai>', '<e@mindswarm.ai>', '<d@mindswarm.ai>'
+    ]);
+  });
+
+  it('threads replies that arrive before their parent', () => {
+    const reply = mail('b', 'Re: Status', 'a');
+    const parent = mail('a', 'Status');
+
+    expect(threadMail([reply, parent]).map(shape)).toEqual([['Status', ['Re: Status']]]);
+  });
+
+  it('keeps a placeholder for a missing parent only when it joins several replies', () => {
+    expect(threadMail([mail('b', 'Re: Lost', 'a')]).map(shape)).toEqual(['Re: Lost']);
+    expect(threadMail([mail('b', 'Re: Lost', 'a'), mail('c', 'Re: Lost', 'a')]).map(shape))
+      .toEqual([['?', ['Re: Lost', 'Re: Lost']]]);
+  });
+
+  it('attaches a reply without headers to the earlier thread with its subject', () => {
+    const threads = threadMail([mail('a', 'Status'), mail('b', 'Response: Status')]);
+
+    expect(threads.map(shape)).toEqual([['Status', ['Response: Status']]]);
+    expect(threadMail([mail('c', 'Status'), mail('d', 'Re: Status')], { subjectFallback: false })).toHaveLength(2);
+  });
+
+  it('ignores references that would make a loop', () => {
+    const threads = threadMail([mail('a', 'One', 'b'), mail('b', 'Two', 'a')]);
+
+    expect(threads).toHaveLength(1);
+    expect(flattenThread(threads[0])).toHaveLength(2);
+  });
+});
+
+describe('MailThreadIndex', () => {
+  it('adds live mail once and finds the thread of any message in it', () => {
+    const index = new MailThreadIndex();
+    index.add(mail('a', 'Status'));
+    index.add(mail('b', 'Re: Status', 'a'));
+
+    expect(index.add(mail('a', 'Status'))).toBe(false);
+    expect(index.size()).toBe(2);
+    expect(index.has('b@mindswarm.ai')).toBe(true);
+    expect(index.getThread('<b@mindswarm.ai>')?.mail?.subject).toBe('Status');
+    expect(index.getThread('<missing@mindswarm.ai>')).toBeNull();
+
+    index.clear();
+    expect(index.size()).toBe(0);
+  });
+});
@@ -0,0 +1,351 @@
+/**
+ * Mail threading
+ *
+ * Rebuilds conversations from Message-ID, In-Reply-To and References
+ * with the JWZ algorithm (https://www.jwz.org/doc/threading.html).
+ * Replies that lost their reply headers fall back to the subject.
+ */
+
+import type { Mail } from '../types/mail.js';
+import { getMailHeaders } from './rfc2822.js';
+
+const REPLY_PREFIX = /^\s*(?:(?:re|response)\s*(?:\[\d+\])?\s*:\s*)+/i;
+
+/**
+ * A message and its replies
+ */
+export interface MailThread {
+  messageId: string;
+  /**
+   * Absent for a placeholder: mail that replies refer to but that
+   * hasn't been seen, kept when it links several replies together
+   */
+  mail?: Mail;
+  children: MailThread[];
+}
+
+export interface MailThreadIndexOptions {
+  /**
+   * Attach a "Re:" or "Response:" mail with no reply headers to the
+   * latest earlier thread with the same subject (default true)
+   */
+  subjectFallback?: boolean;
+}
+
+/**
+ * Entry in the id table; holds no mail until the message itself arrives
+ */
+interface Container {
+  id: string;
+  /**
+   * The id as first seen, angle brackets included
+   */
+  messageId: string;
+  mail?: Mail;
+  parent: Container | null;
+  children: Container[];
+}
+
+/**
+ * Strip "Re:" and "Response:" prefixes, e.g. "Re: Response: Status" -> "Status"
+ */
+export function normalizeSubject(subject: string): string {
+  return subject.replace(REPLY_PREFIX, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Check whether a subject carries a reply prefix
+ */
+export function isReplySubject(subject: string): boolean {
+  return REPLY_PREFIX.test(subject);
+}
+
+/**
+ * Read the message ids in a References or In-Reply-To value
+ * Bare ids separated by whitespace are accepted as well as `<id>`
+ */
+export function parseMessageIds(value: string): string[] {
+  const bracketed = value.match(/<[^<>]*>/g);
+  return bracketed ?? value.split(/\s+/).filter(Boolean);
+}
+
+/**
+ * The ancestors of a mail, oldest first, from its references and
+ * In-Reply-To
+ */
+export function getReferences(mail: Mail): string[] {
+  const references = mail.references
+    ?? parseMessageIds(getMailHeaders(mail).get('References') ?? '');
+  return mail.in_reply_to ? buildReferences(references, mail.in_reply_to) : [...references];
+}
+
+/**
+ * References for a reply to the given message: the parent's chain
+ * followed by the parent itself
+ */
+export function getReplyReferences(parent: Mail): string[] {
+  const references = getReferences(parent);
+  return parent.message_id ? buildReferences(references, parent.message_id) : references;
+}
+
+/**
+ * Append the message being replied to to a References chain, unless it
+ * is already last
+ */
+export function buildReferences(references: string[] | undefined, inReplyTo: string): string[] {
+  const chain = [...(references ?? [])];
+  if (idKey(chain[chain.length - 1] ?? '') !== idKey(inReplyTo)) {
+    chain.push(inReplyTo);
+  }
+  return chain;
+}
+
+/**
+ * Every mail in a thread, parents before their replies
+ */
+export function flattenThread(thread: MailThread): Mail[] {
+  const mails = thread.mail ? [thread.mail] : [];
+  thread.children.forEach(child => mails.push(...flattenThread(child)));
+  return mails;
+}
+
+/**
+ * Thread a batch of mail in one go
+ */
+export function threadMail(mails: Mail[], options: MailThreadIndexOptions = {}): MailThread[] {
+  return new MailThreadIndex(mails, options).getThreads();
+}
+
+/**
+ * Thread index that takes live mail one message at a time
+ * Linking happens on insert; threads are assembled when read
+ */
+export class MailThreadIndex {
+  private containers = new Map<string, Container>();
+  private subjectFallback: boolean;
+  private anonymous = 0;
+
+  constructor(mails: Mail[] = [], options: MailThreadIndexOptions = {}) {
+    this.subjectFallback = options.subjectFallback ?? true;
+    mails.forEach(mail => this.add(mail));
+  }
+
+  /**
+   * Add a message and link it to the messages it refers to
+   * Returns false for a message id already in the index
+   */
+  add(mail: Mail): boolean {
+    let container: Container;
+    const id = mail.message_id ? idKey(mail.message_id) : '';
+    const existing = id ? this.containers.get(id) : undefined;
+
+    if (existing?.mail) {
+      return false;
+    }
+    if (existing) {
+      existing.mail = mail;
+      existing.messageId = mail.message_id!;
+      container = existing;
+    } else {
+      container = this.createContainer(id || `\0${this.anonymous++}`, mail.message_id ?? '');
+      container.mail = mail;
+    }
+
+    // Link the reference chain pairwise without overriding existing links
+    const references = getReferences(mail).filter(ref => idKey(ref) && idKey(ref) !== container.id);
+    let previous: Container | null = null;
+    for (const ref of references) {
+      const current = this.containers.get(idKey(ref)) ?? this.createContainer(idKey(ref), ref);
+      if (previous && !current.parent && !this.wouldLoop(previous, current)) {
+        this.link(previous, current);
+      }
+      previous = current;
+    }
+
+    // The message's own last reference is authoritative for its parent
+    this.unlink(container);
+    if (previous && !this.wouldLoop(previous, container)) {
+      this.link(previous, container);
+    }
+    return true;
+  }
+
+  /**
+   * Add several messages
+   */
+  addAll(mails: Iterable<Mail>): void {
+    for (const mail of mails) {
+      this.add(mail);
+    }
+  }
+
+  /**
+   * Check whether a message has been added
+   */
+  has(messageId: string): boolean {
+    return Boolean(this.containers.get(idKey(messageId))?.mail);
+  }
+
+  /**
+   * Get the number of messages added
+   */
+  size(): number {
+    return [...this.containers.values()].filter(container => container.mail).length;
+  }
+
+  /**
+   * Remove everything
+   */
+  clear(): void {
+    this.containers.clear();
+    this.anonymous = 0;
+  }
+
+  /**
+   * Get the whole thread a message belongs to, from its root
+   */
+  getThread(messageId: string): MailThread | null {
+    const key = idKey(messageId);
+    if (!this.containers.has(key)) {
+      return null;
+    }
+    return this.getThreads().find(thread => containsId(thread, key)) ?? null;
+  }
+
+  /**
+   * Get every thread, oldest first, with replies ordered by date
+   */
+  getThreads(): MailThread[] {
+    const roots = [...this.containers.values()]
+      .filter(container => !container.parent)
+      .flatMap(container => this.toThreads(container, true));
+    sortThreads(roots);
+
+    return this.subjectFallback ? this.gatherBySubject(roots) : roots;
+  }
+
+  /**
+   * Create an empty container in the id table
+   */
+  private createContainer(id: string, messageId: string): Container {
+    const container: Container = { id, messageId, parent: null, children: [] };
+    this.containers.set(id, container);
+    return container;
+  }
+
+  /**
+   * Make one container the parent of another
+   */
+  private link(parent: Container, child: Container): void {
+    child.parent = parent;
+    parent.children.push(child);
+  }
+
+  /**
+   * Detach a container from its parent
+   */
+  private unlink(child: Container): void {
+    if (child.parent) {
+      child.parent.children = child.parent.children.filter(sibling => sibling !== child);
+      child.parent = null;
+    }
+  }
+
+  /**
+   * Check whether linking would make a container its own ancestor
+   */
+  private wouldLoop(parent: Container, child: Container): boolean {
+    for (let current: Container | null = parent; current; current = current.parent) {
+      if (current === child) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Convert a container to threads, pruning placeholders: one without
+   * replies is dropped, and one is replaced by its replies unless it
+   * is a root holding several of them together
+   */
+  private toThreads(container: Container, isRoot: boolean): MailThread[] {
+    const children = container.children.flatMap(child => this.toThreads(child, false));
+    sortThreads(children);
+
+    if (container.mail) {
+      return [{ messageId: container.messageId, mail: container.mail, children }];
+    }
+    if (isRoot && children.length > 1) {
+      return [{ messageId: container.messageId, children }];
+    }
+    return children;
+  }
+
+  /**
+   * Attach reply-prefixed roots without reply headers to the latest
+   * earlier thread with the same subject
+   */
+  private gatherBySubject(roots: MailThread[]): MailThread[] {
+    const bySubject = new Map<string, MailThread>();
+    const threads: MailThread[] = [];
+
+    for (const root of roots) {
+      const key = root.mail ? normalizeSubject(root.mail.subject).toLowerCase() : '';
+      const target = key ? bySubject.get(key) : undefined;
+
+      if (target && root.mail && isOrphanReply(root.mail)) {
+        target.children.push(root);
+        sortThreads(target.children);
+        continue;
+      }
+
+      threads.push(root);
+      if (key) {
+        bySubject.set(key, root);
+      }
+    }
+
+    return threads;
+  }
+}
+
+/**
+ * Id table key; ids are compared without their angle brackets
+ */
+function idKey(messageId: string): string {
+  return messageId.trim().replace(/^<(.*)>$/, '$1');
+}
+
+/**
+ * A reply whose headers don't say what it replies to
+ */
+function isOrphanReply(mail: Mail): boolean {
+  return isReplySubject(mail.subject) && getReferences(mail).length === 0;
+}
+
+/**
+ * Check whether a thread holds a message id
+ */
+function containsId(thread: MailThread, key: string): boolean {
+  return idKey(thread.messageId) === key || thread.children.some(child => containsId(child, key));
+}
+
+/**
+ * Order threads by the date of their earliest message
+ */
+function sortThreads(threads: MailThread[]): void {
+  const dates = new Map(threads.map(thread => [thread, earliestDate(thread)]));
+  // Undated threads compare equal and keep their arrival order
+  threads.sort((a, b) => dates.get(a) === dates.get(b) ? 0 : dates.get(a)! - dates.get(b)!);
+}
+
+/**
+ * Earliest timestamp in a thread, or Infinity when none is dated
+ */
+function earliestDate(thread: MailThread): number {
+  const own = thread.mail?.timestamp ? Date.parse(thread.mail.timestamp) : NaN;
+  return Math.min(
+    isNaN(own) ? Infinity : own,
+    ...thread.children.map(earliestDate)
+  );
+}